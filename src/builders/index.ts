@@ -4,3 +4,4 @@
  */
 
 export { createScorer, scorerBuilder, ScorerBuilder, type ScorerConfig } from './scorerBuilder';
+export { createSoftTfIdfScorer, type SoftTfIdfScorerConfig } from './softTfIdfScorer';
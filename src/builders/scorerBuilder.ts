@@ -6,58 +6,267 @@
 import { ScorerFunction, ProcessorFunction } from '../types';
 import {
   weightedRatio,
-  levenshteinRatio,
+  createWeightedRatio,
+  type WeightedRatioConfig,
+  osaRatio,
+  damerauLevenshteinRatio,
+  jaro,
+  jaroWinkler,
+  type JaroWinklerOptions,
+  qgramJaccard,
+  qgramDice,
+  qgramOverlap,
+  qgramCosine,
+  phoneticRatio,
   partialRatio,
   tokenSortRatio,
   tokenSetRatio,
+  partialTokenSortRatio,
+  partialTokenSetRatio,
+  weightedLevenshteinRatio,
+  substitutionTableCosts,
+  type EditCosts,
+  getBaseRatio,
+  withUnicodeMode,
+  type SubstitutionTable,
+  type RatioMode,
+  type QGramOptions,
+  type PhoneticAlgorithm,
+  type UnicodeMode,
+  type Tokenizer,
+  type TokenProcessor,
+  type StopwordLanguage,
+  removeStopwords,
+  stemTokens,
+  type SynonymDictionary,
 } from '../core';
-import { defaultProcessor } from '../utils/processor';
+import { defaultProcessor, synonymProcessor } from '../utils/processor';
 
 export interface ScorerConfig {
-  algorithm?: 'weighted' | 'simple' | 'partial' | 'tokenSort' | 'tokenSet';
+  algorithm?:
+    | 'weighted'
+    | 'simple'
+    | 'osa'
+    | 'damerauLevenshtein'
+    | 'jaro'
+    | 'jaroWinkler'
+    | 'jaccard'
+    | 'dice'
+    | 'overlap'
+    | 'cosine'
+    | 'phonetic'
+    | 'partial'
+    | 'tokenSort'
+    | 'tokenSet'
+    | 'partialTokenSort'
+    | 'partialTokenSet';
   processor?: ProcessorFunction;
   minScore?: number;
   maxScore?: number;
+  /** Insertion, deletion and substitution weights for the 'simple' algorithm; other algorithms throw */
+  editCosts?: EditCosts;
+  /** Built-in near-miss substitution table for the 'simple' algorithm; other algorithms throw */
+  substitutionTable?: SubstitutionTable;
+  /** Base ratio for the 'simple', 'partial', token and 'weighted' algorithms */
+  ratioMode?: RatioMode;
+  /** Prefix scale, boost threshold and maximum prefix length for the 'jaroWinkler' algorithm */
+  jaroWinklerOptions?: JaroWinklerOptions;
+  /** Gram length and padding for the 'jaccard', 'dice', 'overlap' and 'cosine' algorithms */
+  qgramOptions?: QGramOptions;
+  /** Phonetic encoder for the 'phonetic' algorithm and for `phoneticWeight` (default: 'doubleMetaphone') */
+  phoneticAlgorithm?: PhoneticAlgorithm;
+  /**
+   * Blends the phonetic ratio into any other algorithm:
+   * (1 - phoneticWeight) * score + phoneticWeight * phoneticRatio (0-1, default: 0)
+   */
+  phoneticWeight?: number;
+  /** Compares by UTF-16 code units, code points or grapheme clusters (default: 'codeUnit') */
+  unicode?: UnicodeMode;
+  /** Tokenizer for the token algorithms and 'weighted' (default: `tokenize`) */
+  tokenizer?: Tokenizer;
+  /** Removes these languages' stopwords from the tokens of the token algorithms and 'weighted' */
+  stopwords?: StopwordLanguage | StopwordLanguage[];
+  /** Stems the tokens of the token algorithms and 'weighted' with the Porter stemmer (default: false) */
+  stemming?: boolean;
+  /** Lets the 'weighted' algorithm use the partial token ratios for very different lengths (default: false) */
+  partialTokenRatios?: boolean;
+  /**
+   * Length-ratio thresholds, sub-scorers and scaling factors of the 'weighted'
+   * algorithm (see `createWeightedRatio`). Replaces `partialTokenRatios`.
+   */
+  weightedRatio?: WeightedRatioConfig;
+  /** Minimum similarity (0-100) for different tokens to count as shared in 'tokenSet' and 'weighted' */
+  tokenMatchThreshold?: number;
+  /** Replaces synonyms and abbreviations with canonical forms after the processor, for every algorithm */
+  synonyms?: SynonymDictionary | string;
 }
 
+/**
+ * Algorithms that compare by the unicode mode themselves, so tokenizers, edit
+ * cost callbacks and phonetic encoders see the original text rather than
+ * encoded units.
+ */
+const UNIT_AWARE_ALGORITHMS: ReadonlyArray<ScorerConfig['algorithm']> = [
+  'weighted',
+  'simple',
+  'phonetic',
+  'partial',
+  'tokenSort',
+  'tokenSet',
+  'partialTokenSort',
+  'partialTokenSet',
+];
+
 /**
  * Creates a custom scorer function with the specified configuration.
  * This is a function builder pattern that allows declarative scorer creation.
+ * When edit costs or a substitution table are given without an algorithm,
+ * the 'simple' algorithm is used so that they take effect. Any other explicit
+ * algorithm would ignore them, so that combination throws.
  */
 export function createScorer(config: ScorerConfig = {}): ScorerFunction {
   const {
-    algorithm = 'weighted',
     processor = defaultProcessor,
     minScore = 0,
     maxScore = 100,
+    substitutionTable,
+    ratioMode,
+    jaroWinklerOptions,
+    qgramOptions,
+    phoneticAlgorithm,
+    phoneticWeight = 0,
+    unicode = 'codeUnit',
+    tokenizer,
+    stopwords,
+    stemming = false,
+    synonyms,
+    partialTokenRatios,
+    tokenMatchThreshold,
   } = config;
+  if (phoneticWeight < 0 || phoneticWeight > 1) {
+    throw new Error('phoneticWeight must be between 0 and 1');
+  }
+  const phoneticOptions = { algorithm: phoneticAlgorithm };
+  // Stopwords are removed before stemming, as the lists hold unstemmed words
+  const tokenProcessors: TokenProcessor[] = [];
+  if (stopwords !== undefined) tokenProcessors.push((tokens) => removeStopwords(tokens, stopwords));
+  if (stemming) tokenProcessors.push(stemTokens);
+  const tokenProcessor: TokenProcessor | undefined =
+    tokenProcessors.length > 0
+      ? (tokens): string[] => tokenProcessors.reduce((result, process) => process(result), tokens)
+      : undefined;
+  const ratioOptions = {
+    mode: ratioMode,
+    unicode,
+    tokenizer,
+    tokenProcessor,
+    tokenMatchThreshold,
+  };
+  const normalizeSynonyms = synonyms !== undefined ? synonymProcessor(synonyms) : undefined;
 
-  let coreScorer: (s1: string, s2: string) => number;
+  // Explicit edit costs take precedence over the table's substitution costs
+  const editCosts: EditCosts | undefined =
+    substitutionTable !== undefined
+      ? { ...substitutionTableCosts(substitutionTable), ...config.editCosts }
+      : config.editCosts;
+  const algorithm = config.algorithm ?? (editCosts !== undefined ? 'simple' : 'weighted');
+  if (editCosts !== undefined && algorithm !== 'simple') {
+    throw new Error('editCosts and substitutionTable are only supported by the simple algorithm');
+  }
+
+  let coreScorer: (s1: string, s2: string, scoreCutoff?: number) => number;
 
   switch (algorithm) {
     case 'simple':
-      coreScorer = levenshteinRatio;
+      coreScorer =
+        editCosts !== undefined
+          ? (a, b, scoreCutoff): number =>
+              weightedLevenshteinRatio(a, b, editCosts, scoreCutoff, unicode)
+          : getBaseRatio(ratioMode, unicode);
+      break;
+    case 'osa':
+      coreScorer = osaRatio;
+      break;
+    case 'damerauLevenshtein':
+      coreScorer = damerauLevenshteinRatio;
+      break;
+    case 'jaro':
+      coreScorer = (a, b): number => jaro(a, b) * 100;
+      break;
+    case 'jaroWinkler':
+      coreScorer = (a, b): number => jaroWinkler(a, b, jaroWinklerOptions) * 100;
+      break;
+    case 'jaccard':
+      coreScorer = (a, b): number => qgramJaccard(a, b, qgramOptions) * 100;
+      break;
+    case 'dice':
+      coreScorer = (a, b): number => qgramDice(a, b, qgramOptions) * 100;
+      break;
+    case 'overlap':
+      coreScorer = (a, b): number => qgramOverlap(a, b, qgramOptions) * 100;
+      break;
+    case 'cosine':
+      coreScorer = (a, b): number => qgramCosine(a, b, qgramOptions) * 100;
       break;
     case 'partial':
-      coreScorer = partialRatio;
+      coreScorer = (a, b, scoreCutoff): number => partialRatio(a, b, scoreCutoff, ratioOptions);
       break;
     case 'tokenSort':
-      coreScorer = tokenSortRatio;
+      coreScorer = (a, b, scoreCutoff): number => tokenSortRatio(a, b, scoreCutoff, ratioOptions);
       break;
     case 'tokenSet':
-      coreScorer = tokenSetRatio;
+      coreScorer = (a, b, scoreCutoff): number => tokenSetRatio(a, b, scoreCutoff, ratioOptions);
+      break;
+    case 'partialTokenSort':
+      coreScorer = (a, b, scoreCutoff): number =>
+        partialTokenSortRatio(a, b, scoreCutoff, ratioOptions);
+      break;
+    case 'partialTokenSet':
+      coreScorer = (a, b, scoreCutoff): number =>
+        partialTokenSetRatio(a, b, scoreCutoff, ratioOptions);
+      break;
+    case 'phonetic':
+      coreScorer = (a, b, scoreCutoff): number => phoneticRatio(a, b, scoreCutoff, phoneticOptions);
       break;
     case 'weighted':
     default:
-      coreScorer = weightedRatio;
+      if (config.weightedRatio !== undefined) {
+        const customWeightedRatio = createWeightedRatio(config.weightedRatio);
+        coreScorer = (a, b, scoreCutoff): number =>
+          customWeightedRatio(a, b, scoreCutoff, ratioOptions);
+      } else {
+        coreScorer = (a, b, scoreCutoff): number =>
+          weightedRatio(a, b, scoreCutoff, { ...ratioOptions, partialTokenRatios });
+      }
       break;
   }
 
-  return (s1: string, s2: string): number => {
-    const processed1 = processor(s1);
-    const processed2 = processor(s2);
-    const score = coreScorer(processed1, processed2);
-    return Math.max(minScore, Math.min(maxScore, score));
+  // The others compare encoded strings, one code unit per unit of the chosen mode
+  if (!UNIT_AWARE_ALGORITHMS.includes(algorithm)) {
+    coreScorer = withUnicodeMode(coreScorer, unicode);
+  }
+
+  if (phoneticWeight > 0 && algorithm !== 'phonetic') {
+    const baseScorer = coreScorer;
+    coreScorer = (a, b, scoreCutoff = 0): number => {
+      // The phonetic part contributes at most 100 * phoneticWeight
+      const baseCutoff =
+        phoneticWeight < 1 ? (scoreCutoff - 100 * phoneticWeight) / (1 - phoneticWeight) : 0;
+      const base = phoneticWeight < 1 ? baseScorer(a, b, Math.max(0, baseCutoff)) : 0;
+      return (1 - phoneticWeight) * base + phoneticWeight * phoneticRatio(a, b, 0, phoneticOptions);
+    };
+  }
+
+  return (s1: string, s2: string, proc = processor, scoreCutoff = 0): number => {
+    const normalize = (str: string): string =>
+      normalizeSynonyms ? normalizeSynonyms(proc(str)) : proc(str);
+    const processed1 = normalize(s1);
+    const processed2 = normalize(s2);
+    // A positive minScore lifts cut-off results, so the core scorer must then
+    // compute exact scores
+    const score = coreScorer(processed1, processed2, minScore > 0 ? 0 : scoreCutoff);
+    const bounded = Math.max(minScore, Math.min(maxScore, score));
+    return bounded >= scoreCutoff ? bounded : 0;
   };
 }
 
@@ -65,10 +274,25 @@ export function createScorer(config: ScorerConfig = {}): ScorerFunction {
  * Builder pattern for creating scorers with method chaining.
  */
 export class ScorerBuilder {
-  private algorithm: ScorerConfig['algorithm'] = 'weighted';
+  private algorithm: ScorerConfig['algorithm'] = undefined;
   private processor: ProcessorFunction | undefined = undefined;
   private minScore = 0;
   private maxScore = 100;
+  private editCosts: EditCosts | undefined = undefined;
+  private substitutionTable: SubstitutionTable | undefined = undefined;
+  private ratioMode: RatioMode | undefined = undefined;
+  private jaroWinklerOptions: JaroWinklerOptions | undefined = undefined;
+  private qgramOptions: QGramOptions | undefined = undefined;
+  private phoneticAlgorithm: PhoneticAlgorithm | undefined = undefined;
+  private phoneticWeight: number | undefined = undefined;
+  private unicode: UnicodeMode | undefined = undefined;
+  private tokenizer: Tokenizer | undefined = undefined;
+  private stopwords: StopwordLanguage | StopwordLanguage[] | undefined = undefined;
+  private stemming: boolean | undefined = undefined;
+  private synonyms: SynonymDictionary | string | undefined = undefined;
+  private tokenMatchThreshold: number | undefined = undefined;
+  private partialTokenRatios: boolean | undefined = undefined;
+  private weightedRatio: WeightedRatioConfig | undefined = undefined;
 
   withAlgorithm(algorithm: ScorerConfig['algorithm']): this {
     this.algorithm = algorithm;
@@ -90,12 +314,102 @@ export class ScorerBuilder {
     return this;
   }
 
+  withEditCosts(editCosts: EditCosts): this {
+    this.editCosts = editCosts;
+    return this;
+  }
+
+  withSubstitutionTable(substitutionTable: SubstitutionTable): this {
+    this.substitutionTable = substitutionTable;
+    return this;
+  }
+
+  withRatioMode(ratioMode: RatioMode): this {
+    this.ratioMode = ratioMode;
+    return this;
+  }
+
+  withJaroWinklerOptions(jaroWinklerOptions: JaroWinklerOptions): this {
+    this.jaroWinklerOptions = jaroWinklerOptions;
+    return this;
+  }
+
+  withQGramOptions(qgramOptions: QGramOptions): this {
+    this.qgramOptions = qgramOptions;
+    return this;
+  }
+
+  withPhoneticAlgorithm(phoneticAlgorithm: PhoneticAlgorithm): this {
+    this.phoneticAlgorithm = phoneticAlgorithm;
+    return this;
+  }
+
+  withPhoneticWeight(phoneticWeight: number): this {
+    this.phoneticWeight = phoneticWeight;
+    return this;
+  }
+
+  withUnicodeMode(unicode: UnicodeMode): this {
+    this.unicode = unicode;
+    return this;
+  }
+
+  withTokenizer(tokenizer: Tokenizer): this {
+    this.tokenizer = tokenizer;
+    return this;
+  }
+
+  withStopwords(stopwords: StopwordLanguage | StopwordLanguage[]): this {
+    this.stopwords = stopwords;
+    return this;
+  }
+
+  withStemming(stemming = true): this {
+    this.stemming = stemming;
+    return this;
+  }
+
+  withSynonyms(synonyms: SynonymDictionary | string): this {
+    this.synonyms = synonyms;
+    return this;
+  }
+
+  withTokenMatchThreshold(tokenMatchThreshold: number): this {
+    this.tokenMatchThreshold = tokenMatchThreshold;
+    return this;
+  }
+
+  withPartialTokenRatios(partialTokenRatios = true): this {
+    this.partialTokenRatios = partialTokenRatios;
+    return this;
+  }
+
+  withWeightedRatio(weightedRatio: WeightedRatioConfig): this {
+    this.weightedRatio = weightedRatio;
+    return this;
+  }
+
   build(): ScorerFunction {
     return createScorer({
       algorithm: this.algorithm,
       processor: this.processor,
       minScore: this.minScore,
       maxScore: this.maxScore,
+      editCosts: this.editCosts,
+      substitutionTable: this.substitutionTable,
+      ratioMode: this.ratioMode,
+      jaroWinklerOptions: this.jaroWinklerOptions,
+      qgramOptions: this.qgramOptions,
+      phoneticAlgorithm: this.phoneticAlgorithm,
+      phoneticWeight: this.phoneticWeight,
+      unicode: this.unicode,
+      tokenizer: this.tokenizer,
+      stopwords: this.stopwords,
+      stemming: this.stemming,
+      synonyms: this.synonyms,
+      tokenMatchThreshold: this.tokenMatchThreshold,
+      partialTokenRatios: this.partialTokenRatios,
+      weightedRatio: this.weightedRatio,
     });
   }
 }
@@ -0,0 +1,32 @@
+/**
+ * Builder for Soft TF-IDF scorers, which need IDF weights fitted on a corpus.
+ */
+
+import { ScorerFunction, ProcessorFunction } from '../types';
+import { createSoftTfIdf, type SoftTfIdfOptions } from '../core';
+import { defaultProcessor } from '../utils/processor';
+
+export interface SoftTfIdfScorerConfig extends SoftTfIdfOptions {
+  /** Applied to the corpus and, unless a scorer call passes its own, to the compared strings */
+  processor?: ProcessorFunction;
+}
+
+/**
+ * Creates a Soft TF-IDF scorer with IDF weights fitted on the corpus, usually
+ * the choices passed to `extract`. The first string's tokens are matched
+ * against the second's, so pass the query first.
+ *
+ * @param corpus - Documents to fit the IDF weights on
+ * @param config - Processor, inner similarity, threshold and tokenizer
+ * @returns Scorer function (0-100)
+ */
+export function createSoftTfIdfScorer(
+  corpus: string[],
+  config: SoftTfIdfScorerConfig = {}
+): ScorerFunction {
+  const { processor = defaultProcessor, ...options } = config;
+  const softTfIdf = createSoftTfIdf(corpus.map(processor), options);
+
+  return (s1: string, s2: string, proc = processor, scoreCutoff = 0): number =>
+    softTfIdf(proc(s1), proc(s2), scoreCutoff);
+}
@@ -0,0 +1,285 @@
+/**
+ * Smith-Waterman (local) and Needleman-Wunsch (global) sequence alignment
+ * with affine gap penalties (Gotoh's algorithm).
+ * Pure functions with no external dependencies beyond other core modules.
+ *
+ * Unlike `partialRatio`, which slides a window of the shorter string's length,
+ * local alignment allows gaps, so a needle with extra or missing characters
+ * relative to the haystack still aligns as a whole.
+ */
+
+import type { ScoreAlignment } from './partialRatio';
+
+export interface AlignmentOptions {
+  /** Score for aligning two equal characters (default: 2, must be positive) */
+  match?: number;
+  /** Score for aligning two different characters (default: -1) */
+  mismatch?: number;
+  /** Penalty for the first character of a gap (default: 2) */
+  gapOpen?: number;
+  /** Penalty for each further character of the same gap (default: 1) */
+  gapExtend?: number;
+}
+
+export interface AlignmentResult extends ScoreAlignment {
+  /** Unnormalized alignment score */
+  rawScore: number;
+}
+
+interface ResolvedOptions {
+  match: number;
+  mismatch: number;
+  gapOpen: number;
+  gapExtend: number;
+}
+
+function resolveOptions(options: AlignmentOptions): ResolvedOptions {
+  const { match = 2, mismatch = -1, gapOpen = 2, gapExtend = 1 } = options;
+  if (match <= 0) {
+    throw new Error('match score must be positive');
+  }
+  if (gapOpen < 0 || gapExtend < 0) {
+    throw new Error('gap penalties must be non-negative');
+  }
+  return { match, mismatch, gapOpen, gapExtend };
+}
+
+/**
+ * Local alignment DP keeping only two rows. The start cell of the best path
+ * into each state is carried along, encoded as i * width + j, so the aligned
+ * spans are known without a traceback matrix. The encoded cells are held in
+ * Float64Arrays, as they exceed the 32-bit range for long strings.
+ */
+function alignLocal(s1: string, s2: string, options: ResolvedOptions): AlignmentResult {
+  const { match, mismatch, gapOpen, gapExtend } = options;
+  const len2 = s2.length;
+  const width = len2 + 1;
+
+  let prevH = new Float64Array(width);
+  let currH = new Float64Array(width);
+  let prevHStart = new Float64Array(width);
+  let currHStart = new Float64Array(width);
+  // Vertical gaps (consuming s1) continue from the previous row
+  let prevF = new Float64Array(width).fill(-Infinity);
+  let currF = new Float64Array(width).fill(-Infinity);
+  let prevFStart = new Float64Array(width);
+  let currFStart = new Float64Array(width);
+
+  for (let j = 0; j <= len2; j++) {
+    prevHStart[j] = j;
+  }
+
+  let bestScore = 0;
+  let bestEnd = 0;
+  let bestStart = 0;
+
+  for (let i = 1; i <= s1.length; i++) {
+    const c1 = s1.charCodeAt(i - 1);
+    currH[0] = 0;
+    currHStart[0] = i * width;
+    // Horizontal gap (consuming s2) within the current row
+    let e = -Infinity;
+    let eStart = 0;
+
+    for (let j = 1; j <= len2; j++) {
+      const openE = (currH[j - 1] ?? 0) - gapOpen;
+      const extendE = e - gapExtend;
+      if (openE >= extendE) {
+        e = openE;
+        eStart = currHStart[j - 1] ?? 0;
+      } else {
+        e = extendE;
+      }
+
+      const openF = (prevH[j] ?? 0) - gapOpen;
+      const extendF = (prevF[j] ?? -Infinity) - gapExtend;
+      if (openF >= extendF) {
+        currF[j] = openF;
+        currFStart[j] = prevHStart[j] ?? 0;
+      } else {
+        currF[j] = extendF;
+        currFStart[j] = prevFStart[j] ?? 0;
+      }
+
+      const diagonal = (prevH[j - 1] ?? 0) + (c1 === s2.charCodeAt(j - 1) ? match : mismatch);
+      let h = diagonal;
+      let hStart = prevHStart[j - 1] ?? 0;
+      if (e > h) {
+        h = e;
+        hStart = eStart;
+      }
+      const f = currF[j] ?? -Infinity;
+      if (f > h) {
+        h = f;
+        hStart = currFStart[j] ?? 0;
+      }
+      // Local alignment never carries a non-positive prefix
+      if (h <= 0) {
+        h = 0;
+        hStart = i * width + j;
+      }
+
+      currH[j] = h;
+      currHStart[j] = hStart;
+      if (h > bestScore) {
+        bestScore = h;
+        bestEnd = i * width + j;
+        bestStart = hStart;
+      }
+    }
+
+    // Rotate rows (zero-copy)
+    [prevH, currH] = [currH, prevH];
+    [prevHStart, currHStart] = [currHStart, prevHStart];
+    [prevF, currF] = [currF, prevF];
+    [prevFStart, currFStart] = [currFStart, prevFStart];
+  }
+
+  const maxScore = match * Math.min(s1.length, s2.length);
+  // With an empty string, only two empty strings count as a match
+  let score = s1.length === s2.length ? 100 : 0;
+  if (maxScore > 0) score = Math.min(100, (bestScore / maxScore) * 100);
+  return {
+    score,
+    rawScore: bestScore,
+    sourceStart: Math.floor(bestStart / width),
+    sourceEnd: Math.floor(bestEnd / width),
+    destStart: bestStart % width,
+    destEnd: bestEnd % width,
+  };
+}
+
+/**
+ * Global alignment score with two rows. Both strings are aligned end to end.
+ */
+function alignGlobal(s1: string, s2: string, options: ResolvedOptions): AlignmentResult {
+  const { match, mismatch, gapOpen, gapExtend } = options;
+  const len1 = s1.length;
+  const len2 = s2.length;
+  const gapCost = (length: number): number =>
+    length === 0 ? 0 : gapOpen + (length - 1) * gapExtend;
+
+  let prevH = new Float64Array(len2 + 1);
+  let currH = new Float64Array(len2 + 1);
+  let prevF = new Float64Array(len2 + 1).fill(-Infinity);
+  let currF = new Float64Array(len2 + 1).fill(-Infinity);
+
+  for (let j = 0; j <= len2; j++) {
+    prevH[j] = -gapCost(j);
+  }
+
+  for (let i = 1; i <= len1; i++) {
+    const c1 = s1.charCodeAt(i - 1);
+    currH[0] = -gapCost(i);
+    let e = -Infinity;
+
+    for (let j = 1; j <= len2; j++) {
+      e = Math.max((currH[j - 1] ?? 0) - gapOpen, e - gapExtend);
+      const f = Math.max((prevH[j] ?? 0) - gapOpen, (prevF[j] ?? -Infinity) - gapExtend);
+      currF[j] = f;
+      const diagonal = (prevH[j - 1] ?? 0) + (c1 === s2.charCodeAt(j - 1) ? match : mismatch);
+      currH[j] = Math.max(diagonal, e, f);
+    }
+
+    // Rotate rows (zero-copy)
+    [prevH, currH] = [currH, prevH];
+    [prevF, currF] = [currF, prevF];
+  }
+
+  const rawScore = prevH[len2] ?? 0;
+  const maxScore = match * Math.max(len1, len2);
+  return {
+    score: maxScore === 0 ? 100 : Math.max(0, (rawScore / maxScore) * 100),
+    rawScore,
+    sourceStart: 0,
+    sourceEnd: len1,
+    destStart: 0,
+    destEnd: len2,
+  };
+}
+
+/**
+ * Finds the best local alignment between two strings (Smith-Waterman with
+ * affine gaps). A gap of length k costs gapOpen + (k - 1) * gapExtend.
+ *
+ * The score is normalized by a perfect match of the shorter string, so a
+ * needle found intact in the haystack scores 100.
+ *
+ * Runs in O(m*n) time and O(n) space.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param options - Match, mismatch and gap scores
+ * @returns Normalized score (0-100), raw score and the aligned ranges of s1 and s2
+ */
+export function smithWaterman(
+  s1: string,
+  s2: string,
+  options: AlignmentOptions = {}
+): AlignmentResult {
+  return alignLocal(s1, s2, resolveOptions(options));
+}
+
+/**
+ * Calculates the best global alignment of two strings (Needleman-Wunsch with
+ * affine gaps). A gap of length k costs gapOpen + (k - 1) * gapExtend.
+ *
+ * The score is normalized by a perfect match of the longer string and
+ * clamped at 0; the aligned ranges always cover both strings.
+ *
+ * Runs in O(m*n) time and O(n) space.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param options - Match, mismatch and gap scores
+ * @returns Normalized score (0-100), raw score and the aligned ranges of s1 and s2
+ */
+export function needlemanWunsch(
+  s1: string,
+  s2: string,
+  options: AlignmentOptions = {}
+): AlignmentResult {
+  return alignGlobal(s1, s2, resolveOptions(options));
+}
+
+/**
+ * Calculates similarity ratio between two strings from their best local
+ * alignment.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Match, mismatch and gap scores
+ * @returns Similarity ratio (0-100)
+ */
+export function smithWatermanRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: AlignmentOptions = {}
+): number {
+  if (s1 === s2) return 100;
+  const { score } = smithWaterman(s1, s2, options);
+  return score >= scoreCutoff ? score : 0;
+}
+
+/**
+ * Calculates similarity ratio between two strings from their global
+ * alignment.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Match, mismatch and gap scores
+ * @returns Similarity ratio (0-100)
+ */
+export function needlemanWunschRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: AlignmentOptions = {}
+): number {
+  if (s1 === s2) return 100;
+  const { score } = needlemanWunsch(s1, s2, options);
+  return score >= scoreCutoff ? score : 0;
+}
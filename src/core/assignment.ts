@@ -0,0 +1,86 @@
+/**
+ * Optimal one-to-one assignment (Hungarian algorithm).
+ * Pure functions with no external dependencies.
+ */
+
+/**
+ * Finds the rows-to-columns assignment with the largest total weight, where
+ * each row and each column is used at most once. Pairs of weight 0 or less
+ * are left out of the result.
+ * Runs in O(n²m) time for n = min(rows, columns) and m = max(rows, columns).
+ *
+ * @param weights - Weight matrix, weights[row][column]
+ * @returns Assigned [row, column] pairs, ordered by row
+ */
+export function maxWeightAssignment(weights: number[][]): Array<[number, number]> {
+  const rows = weights.length;
+  const columns = weights[0]?.length ?? 0;
+  if (rows === 0 || columns === 0) return [];
+
+  // The algorithm needs at most as many rows as columns
+  const transposed = rows > columns;
+  const n = transposed ? columns : rows;
+  const m = transposed ? rows : columns;
+  // Maximizing the weight is minimizing its negation
+  const cost = (i: number, j: number): number =>
+    -((transposed ? weights[j]?.[i] : weights[i]?.[j]) ?? 0);
+
+  // Potentials of rows (u) and columns (v), 1-based with 0 as a virtual column
+  const u = new Float64Array(n + 1);
+  const v = new Float64Array(m + 1);
+  // Row assigned to each column, and the previous column on the augmenting path
+  const rowOf = new Int32Array(m + 1);
+  const way = new Int32Array(m + 1);
+
+  for (let i = 1; i <= n; i++) {
+    rowOf[0] = i;
+    let column = 0;
+    const minSlack = new Float64Array(m + 1).fill(Infinity);
+    const used = new Uint8Array(m + 1);
+
+    // Grow the alternating tree until a free column is reached
+    do {
+      used[column] = 1;
+      const row = rowOf[column] ?? 0;
+      let delta = Infinity;
+      let next = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const slack = cost(row - 1, j - 1) - (u[row] ?? 0) - (v[j] ?? 0);
+        if (slack < (minSlack[j] ?? Infinity)) {
+          minSlack[j] = slack;
+          way[j] = column;
+        }
+        if ((minSlack[j] ?? Infinity) < delta) {
+          delta = minSlack[j] ?? Infinity;
+          next = j;
+        }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          const r = rowOf[j] ?? 0;
+          u[r] = (u[r] ?? 0) + delta;
+          v[j] = (v[j] ?? 0) - delta;
+        } else {
+          minSlack[j] = (minSlack[j] ?? Infinity) - delta;
+        }
+      }
+      column = next;
+    } while (rowOf[column] !== 0);
+
+    // Flip the augmenting path
+    do {
+      const previous = way[column] ?? 0;
+      rowOf[column] = rowOf[previous] ?? 0;
+      column = previous;
+    } while (column !== 0);
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let j = 1; j <= m; j++) {
+    const i = rowOf[j] ?? 0;
+    if (i === 0 || cost(i - 1, j - 1) >= 0) continue;
+    pairs.push(transposed ? [j - 1, i - 1] : [i - 1, j - 1]);
+  }
+  return pairs.sort((a, b) => a[0] - b[0]);
+}
@@ -0,0 +1,209 @@
+/**
+ * Transposition-aware edit distances.
+ * Pure functions with no external dependencies.
+ *
+ * Plain Levenshtein charges two edits for swapping adjacent characters
+ * ("teh" -> "the"). The variants below count such a swap as a single edit.
+ */
+
+/**
+ * Optimal string alignment (restricted Damerau-Levenshtein) distance.
+ * Counts insertions, deletions, substitutions and transpositions of adjacent
+ * characters, with the restriction that no substring is edited more than once.
+ *
+ * Uses three rolling rows, so space is O(min(m,n)).
+ *
+ * When `maxDistance` is given, the computation stops as soon as the distance is
+ * known to exceed it: the minimum of a row never decreases from one row to
+ * the next, so it bounds the final distance from below.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param maxDistance - Largest distance of interest (default: unbounded)
+ * @returns OSA distance, or `maxDistance + 1` if it exceeds `maxDistance`
+ */
+export function osaDistance(s1: string, s2: string, maxDistance = Infinity): number {
+  const len1 = s1.length;
+  const len2 = s2.length;
+
+  // Early exit for identical strings
+  if (s1 === s2) return 0;
+  if (Math.abs(len1 - len2) > maxDistance) return maxDistance + 1;
+
+  if (len1 === 0) return len2;
+  if (len2 === 0) return len1;
+
+  // Optimize: use shorter string as inner dimension
+  if (len1 < len2) {
+    return osaDistance(s2, s1, maxDistance);
+  }
+
+  let prevPrevRow = new Array<number>(len2 + 1).fill(0);
+  let prevRow = new Array<number>(len2 + 1);
+  let currRow = new Array<number>(len2 + 1);
+
+  for (let j = 0; j <= len2; j++) {
+    prevRow[j] = j;
+  }
+
+  for (let i = 1; i <= len1; i++) {
+    currRow[0] = i;
+    let rowMin = i;
+    const c1 = s1[i - 1];
+
+    for (let j = 1; j <= len2; j++) {
+      const c2 = s2[j - 1];
+      const cost = c1 === c2 ? 0 : 1;
+
+      let value = Math.min(
+        (currRow[j - 1] ?? 0) + 1,
+        (prevRow[j] ?? 0) + 1,
+        (prevRow[j - 1] ?? 0) + cost
+      );
+
+      // Adjacent transposition
+      if (i > 1 && j > 1 && c1 === s2[j - 2] && s1[i - 2] === c2) {
+        value = Math.min(value, (prevPrevRow[j - 2] ?? 0) + 1);
+      }
+
+      currRow[j] = value;
+      if (value < rowMin) rowMin = value;
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+
+    // Rotate rows (zero-copy)
+    const temp = prevPrevRow;
+    prevPrevRow = prevRow;
+    prevRow = currRow;
+    currRow = temp;
+  }
+
+  const distance = prevRow[len2] ?? 0;
+  return distance <= maxDistance ? distance : maxDistance + 1;
+}
+
+/**
+ * True (unrestricted) Damerau-Levenshtein distance.
+ * Unlike OSA, a transposed pair may be edited further, so the result is a
+ * proper metric (e.g. "ca" -> "abc" is 2, where OSA gives 3).
+ *
+ * Implements the Lowrance-Wagner algorithm with a per-character last-seen
+ * row table. Requires O(m*n) space.
+ *
+ * When `maxDistance` is given, the computation stops as soon as the minimum
+ * of a row exceeds it, as row minima never decrease.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param maxDistance - Largest distance of interest (default: unbounded)
+ * @returns Damerau-Levenshtein distance, or `maxDistance + 1` if it exceeds `maxDistance`
+ */
+export function damerauLevenshteinDistance(s1: string, s2: string, maxDistance = Infinity): number {
+  const len1 = s1.length;
+  const len2 = s2.length;
+
+  // Early exit for identical strings
+  if (s1 === s2) return 0;
+  if (Math.abs(len1 - len2) > maxDistance) return maxDistance + 1;
+
+  if (len1 === 0) return len2;
+  if (len2 === 0) return len1;
+
+  const maxDist = len1 + len2;
+  const width = len2 + 2;
+  // Flat (len1 + 2) x (len2 + 2) matrix, offset by one row/column for the sentinel
+  const matrix = new Array<number>((len1 + 2) * width).fill(0);
+  const lastRow = new Map<string, number>();
+
+  matrix[0] = maxDist;
+  for (let i = 0; i <= len1; i++) {
+    matrix[(i + 1) * width] = maxDist;
+    matrix[(i + 1) * width + 1] = i;
+  }
+  for (let j = 0; j <= len2; j++) {
+    matrix[j + 1] = maxDist;
+    matrix[width + j + 1] = j;
+  }
+
+  for (let i = 1; i <= len1; i++) {
+    const c1 = s1[i - 1] ?? '';
+    let lastMatchCol = 0;
+    let rowMin = i;
+
+    for (let j = 1; j <= len2; j++) {
+      const c2 = s2[j - 1] ?? '';
+      const k = lastRow.get(c2) ?? 0;
+      const l = lastMatchCol;
+      let cost = 1;
+      if (c1 === c2) {
+        cost = 0;
+        lastMatchCol = j;
+      }
+
+      const value = Math.min(
+        (matrix[i * width + j] ?? 0) + cost,
+        (matrix[(i + 1) * width + j] ?? 0) + 1,
+        (matrix[i * width + j + 1] ?? 0) + 1,
+        (matrix[k * width + l] ?? 0) + (i - k - 1) + 1 + (j - l - 1)
+      );
+      matrix[(i + 1) * width + j + 1] = value;
+      if (value < rowMin) rowMin = value;
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+
+    lastRow.set(c1, i);
+  }
+
+  const distance = matrix[(len1 + 1) * width + len2 + 1] ?? 0;
+  return distance <= maxDistance ? distance : maxDistance + 1;
+}
+
+/**
+ * Largest distance that can still reach `scoreCutoff`. Rounded up so floating
+ * point error never rejects a qualifying score; the final comparison is exact.
+ */
+function cutoffDistance(maxLen: number, scoreCutoff: number): number {
+  return Math.ceil(maxLen * (1 - scoreCutoff / 100));
+}
+
+function distanceToRatio(distance: number, maxLen: number, scoreCutoff: number): number {
+  if (maxLen === 0 || distance === 0) return 100;
+  if (distance >= maxLen) return 0;
+  const ratio = ((maxLen - distance) / maxLen) * 100;
+  return ratio >= scoreCutoff ? ratio : 0;
+}
+
+/**
+ * Calculates similarity ratio between two strings using OSA distance.
+ * Returns a value between 0 and 100, where 100 indicates identical strings.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @returns Similarity ratio (0-100)
+ */
+export function osaRatio(s1: string, s2: string, scoreCutoff = 0): number {
+  if (s1 === s2) return 100;
+  if (scoreCutoff > 100) return 0;
+  const maxLen = Math.max(s1.length, s2.length);
+  const distance = osaDistance(s1, s2, cutoffDistance(maxLen, scoreCutoff));
+  return distanceToRatio(distance, maxLen, scoreCutoff);
+}
+
+/**
+ * Calculates similarity ratio between two strings using true
+ * Damerau-Levenshtein distance.
+ * Returns a value between 0 and 100, where 100 indicates identical strings.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @returns Similarity ratio (0-100)
+ */
+export function damerauLevenshteinRatio(s1: string, s2: string, scoreCutoff = 0): number {
+  if (s1 === s2) return 100;
+  if (scoreCutoff > 100) return 0;
+  const maxLen = Math.max(s1.length, s2.length);
+  const distance = damerauLevenshteinDistance(s1, s2, cutoffDistance(maxLen, scoreCutoff));
+  return distanceToRatio(distance, maxLen, scoreCutoff);
+}
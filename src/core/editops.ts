@@ -0,0 +1,280 @@
+/**
+ * Edit operations between two strings.
+ * Pure functions with no external dependencies.
+ *
+ * `editops` lists the individual insert/delete/replace steps of a minimal
+ * Levenshtein alignment; `opcodes` groups them into ranges covering both
+ * strings, including the unchanged ("equal") parts.
+ */
+
+export type EditOpType = 'insert' | 'delete' | 'replace';
+
+export type OpcodeType = EditOpType | 'equal';
+
+export interface EditOp {
+  type: EditOpType;
+  /** Position in the source string */
+  sourcePos: number;
+  /** Position in the destination string */
+  destPos: number;
+}
+
+export interface Opcode {
+  type: OpcodeType;
+  sourceStart: number;
+  sourceEnd: number;
+  destStart: number;
+  destEnd: number;
+}
+
+/**
+ * Computes a minimal sequence of edit operations transforming s1 into s2.
+ * The number of operations always equals `levenshteinDistance(s1, s2)`.
+ *
+ * For a replace, both positions point at the replaced characters. A delete
+ * removes `s1[sourcePos]` before `s2[destPos]`; an insert adds `s2[destPos]`
+ * before `s1[sourcePos]`.
+ *
+ * Requires the full DP matrix: O(m*n) time and space after stripping the
+ * common prefix and suffix.
+ *
+ * @param s1 - Source string
+ * @param s2 - Destination string
+ * @returns Edit operations ordered by position
+ */
+export function editops(s1: string, s2: string): EditOp[] {
+  if (s1 === s2) return [];
+
+  let prefix = 0;
+  let end1 = s1.length;
+  let end2 = s2.length;
+  while (prefix < end1 && prefix < end2 && s1[prefix] === s2[prefix]) {
+    prefix++;
+  }
+  while (end1 > prefix && end2 > prefix && s1[end1 - 1] === s2[end2 - 1]) {
+    end1--;
+    end2--;
+  }
+
+  const len1 = end1 - prefix;
+  const len2 = end2 - prefix;
+  const width = len2 + 1;
+  const matrix = new Uint32Array((len1 + 1) * width);
+
+  for (let j = 0; j <= len2; j++) {
+    matrix[j] = j;
+  }
+  for (let i = 1; i <= len1; i++) {
+    matrix[i * width] = i;
+    const c1 = s1[prefix + i - 1];
+
+    for (let j = 1; j <= len2; j++) {
+      const cost = c1 === s2[prefix + j - 1] ? 0 : 1;
+      matrix[i * width + j] = Math.min(
+        (matrix[(i - 1) * width + j] ?? 0) + 1,
+        (matrix[i * width + j - 1] ?? 0) + 1,
+        (matrix[(i - 1) * width + j - 1] ?? 0) + cost
+      );
+    }
+  }
+
+  // Backtrack from the bottom-right corner, preferring matches, then
+  // replacements, then deletions
+  const ops: EditOp[] = [];
+  let i = len1;
+  let j = len2;
+
+  while (i > 0 || j > 0) {
+    const current = matrix[i * width + j] ?? 0;
+
+    if (i > 0 && j > 0) {
+      const diagonal = matrix[(i - 1) * width + j - 1] ?? 0;
+      if (s1[prefix + i - 1] === s2[prefix + j - 1] && current === diagonal) {
+        i--;
+        j--;
+        continue;
+      }
+      if (current === diagonal + 1) {
+        i--;
+        j--;
+        ops.push({ type: 'replace', sourcePos: prefix + i, destPos: prefix + j });
+        continue;
+      }
+    }
+
+    if (i > 0 && current === (matrix[(i - 1) * width + j] ?? 0) + 1) {
+      i--;
+      ops.push({ type: 'delete', sourcePos: prefix + i, destPos: prefix + j });
+    } else {
+      j--;
+      ops.push({ type: 'insert', sourcePos: prefix + i, destPos: prefix + j });
+    }
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Groups edit operations into opcodes covering both strings completely.
+ *
+ * @param ops - Edit operations, as returned by `editops`
+ * @param sourceLength - Length of the source string
+ * @param destLength - Length of the destination string
+ * @returns Opcodes ordered by position
+ */
+export function editopsToOpcodes(
+  ops: readonly EditOp[],
+  sourceLength: number,
+  destLength: number
+): Opcode[] {
+  const result: Opcode[] = [];
+  let src = 0;
+  let dest = 0;
+  let index = 0;
+
+  while (index < ops.length) {
+    const first = ops[index];
+    if (first === undefined) break;
+
+    if (src < first.sourcePos || dest < first.destPos) {
+      result.push({
+        type: 'equal',
+        sourceStart: src,
+        sourceEnd: first.sourcePos,
+        destStart: dest,
+        destEnd: first.destPos,
+      });
+      src = first.sourcePos;
+      dest = first.destPos;
+    }
+
+    // Merge consecutive operations of the same type into one range
+    const sourceStart = src;
+    const destStart = dest;
+    let op: EditOp | undefined = first;
+    while (
+      op !== undefined &&
+      op.type === first.type &&
+      op.sourcePos === src &&
+      op.destPos === dest
+    ) {
+      if (op.type !== 'insert') src++;
+      if (op.type !== 'delete') dest++;
+      op = ops[++index];
+    }
+
+    result.push({ type: first.type, sourceStart, sourceEnd: src, destStart, destEnd: dest });
+  }
+
+  if (src < sourceLength || dest < destLength) {
+    result.push({
+      type: 'equal',
+      sourceStart: src,
+      sourceEnd: sourceLength,
+      destStart: dest,
+      destEnd: destLength,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Computes opcodes describing how to turn s1 into s2, including equal ranges.
+ *
+ * @param s1 - Source string
+ * @param s2 - Destination string
+ * @returns Opcodes ordered by position
+ */
+export function opcodes(s1: string, s2: string): Opcode[] {
+  return editopsToOpcodes(editops(s1, s2), s1.length, s2.length);
+}
+
+/**
+ * Applies edit operations to the source string.
+ * Applying the full result of `editops(s1, s2)` yields s2; applying a subset
+ * yields an intermediate string.
+ *
+ * @param ops - Edit operations ordered by position
+ * @param s1 - Source string
+ * @param s2 - Destination string the operations were computed against
+ * @returns The edited string
+ */
+export function applyEditops(ops: readonly EditOp[], s1: string, s2: string): string {
+  let result = '';
+  let src = 0;
+
+  for (const op of ops) {
+    result += s1.slice(src, op.sourcePos);
+    src = op.sourcePos;
+
+    if (op.type === 'replace') {
+      result += s2[op.destPos] ?? '';
+      src++;
+    } else if (op.type === 'insert') {
+      result += s2[op.destPos] ?? '';
+    } else {
+      src++;
+    }
+  }
+
+  return result + s1.slice(src);
+}
+
+/**
+ * Applies opcodes to the source string.
+ *
+ * @param ops - Opcodes, as returned by `opcodes`
+ * @param s1 - Source string
+ * @param s2 - Destination string the opcodes were computed against
+ * @returns The edited string
+ */
+export function applyOpcodes(ops: readonly Opcode[], s1: string, s2: string): string {
+  let result = '';
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      result += s1.slice(op.sourceStart, op.sourceEnd);
+    } else if (op.type !== 'delete') {
+      result += s2.slice(op.destStart, op.destEnd);
+    }
+  }
+
+  return result;
+}
+
+function invertType<T extends OpcodeType>(type: T): T {
+  if (type === 'insert') return 'delete' as T;
+  if (type === 'delete') return 'insert' as T;
+  return type;
+}
+
+/**
+ * Inverts edit operations so they transform s2 into s1.
+ *
+ * @param ops - Edit operations from s1 to s2
+ * @returns Edit operations from s2 to s1
+ */
+export function invertEditops(ops: readonly EditOp[]): EditOp[] {
+  return ops.map((op) => ({
+    type: invertType(op.type),
+    sourcePos: op.destPos,
+    destPos: op.sourcePos,
+  }));
+}
+
+/**
+ * Inverts opcodes so they transform s2 into s1.
+ *
+ * @param ops - Opcodes from s1 to s2
+ * @returns Opcodes from s2 to s1
+ */
+export function invertOpcodes(ops: readonly Opcode[]): Opcode[] {
+  return ops.map((op) => ({
+    type: invertType(op.type),
+    sourceStart: op.destStart,
+    sourceEnd: op.destEnd,
+    destStart: op.sourceStart,
+    destEnd: op.sourceEnd,
+  }));
+}
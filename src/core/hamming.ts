@@ -0,0 +1,42 @@
+/**
+ * Hamming distance for equal-length strings such as codes and identifiers.
+ * Pure functions with no external dependencies.
+ */
+
+/**
+ * Counts the positions at which two equal-length strings differ.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @returns Hamming distance between the two strings
+ * @throws If the strings have different lengths
+ */
+export function hammingDistance(s1: string, s2: string): number {
+  if (s1.length !== s2.length) {
+    throw new Error('Hamming distance requires strings of equal length');
+  }
+
+  let distance = 0;
+  for (let i = 0; i < s1.length; i++) {
+    if (s1.charCodeAt(i) !== s2.charCodeAt(i)) distance++;
+  }
+  return distance;
+}
+
+/**
+ * Calculates similarity ratio between two strings using Hamming distance.
+ * Strings of different lengths are not comparable and score 0, so the ratio
+ * can be used as a scorer over mixed-length choices.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @returns Similarity ratio (0-100)
+ */
+export function hammingRatio(s1: string, s2: string, scoreCutoff = 0): number {
+  if (s1 === s2) return 100;
+  if (s1.length !== s2.length) return 0;
+
+  const ratio = (1 - hammingDistance(s1, s2) / s1.length) * 100;
+  return ratio >= scoreCutoff ? ratio : 0;
+}
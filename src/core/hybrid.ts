@@ -0,0 +1,184 @@
+/**
+ * Hybrid token scorers: Monge-Elkan and Soft TF-IDF.
+ * Pure functions with no external dependencies beyond other core modules.
+ *
+ * Both split strings into tokens and compare the tokens with an inner,
+ * character-level similarity, so they tolerate reordered words and typos
+ * inside words at the same time.
+ */
+
+import { jaroWinkler } from './jaro';
+import { tokenize, type Tokenizer } from './tokenizer';
+
+/**
+ * Similarity of two tokens (0-100). Any `ScorerFunction`, such as
+ * `jaroWinklerRatio` or `ratio`, can be used.
+ */
+export type TokenSimilarity = (token1: string, token2: string) => number;
+
+const jaroWinklerSimilarity: TokenSimilarity = (token1, token2) =>
+  jaroWinkler(token1, token2) * 100;
+
+export interface MongeElkanOptions {
+  /** Inner similarity of two tokens (default: Jaro-Winkler) */
+  similarity?: TokenSimilarity;
+  /**
+   * Averages the scores of both directions; otherwise only the tokens of the
+   * first string are matched against the second (default: true)
+   */
+  symmetric?: boolean;
+  /** Tokenizer (default: `tokenize`) */
+  tokenizer?: Tokenizer;
+}
+
+/**
+ * Average over the tokens of `tokens1` of their best similarity to a token
+ * of `tokens2`.
+ */
+function mongeElkanDirected(
+  tokens1: string[],
+  tokens2: string[],
+  similarity: TokenSimilarity
+): number {
+  let sum = 0;
+  for (const token1 of tokens1) {
+    let best = 0;
+    for (const token2 of tokens2) {
+      best = Math.max(best, token1 === token2 ? 100 : similarity(token1, token2));
+      if (best === 100) break;
+    }
+    sum += best;
+  }
+  return sum / tokens1.length;
+}
+
+/**
+ * Monge-Elkan similarity: each token is matched with its most similar token
+ * of the other string, and the best similarities are averaged.
+ *
+ * @example
+ * mongeElkanRatio('jon smiht', 'smith john'); // 94.3
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Inner similarity, direction and tokenizer
+ * @returns Monge-Elkan ratio (0-100)
+ */
+export function mongeElkanRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: MongeElkanOptions = {}
+): number {
+  const { similarity = jaroWinklerSimilarity, symmetric = true, tokenizer = tokenize } = options;
+  const tokens1 = tokenizer(s1);
+  const tokens2 = tokenizer(s2);
+
+  if (tokens1.length === 0 && tokens2.length === 0) return 100;
+  if (tokens1.length === 0 || tokens2.length === 0) return 0;
+
+  const forward = mongeElkanDirected(tokens1, tokens2, similarity);
+  const score = symmetric
+    ? (forward + mongeElkanDirected(tokens2, tokens1, similarity)) / 2
+    : forward;
+  return score >= scoreCutoff ? score : 0;
+}
+
+export interface SoftTfIdfOptions {
+  /** Inner similarity of two tokens (default: Jaro-Winkler) */
+  similarity?: TokenSimilarity;
+  /** Minimum inner similarity (0-100) for two tokens to count as the same word (default: 90) */
+  threshold?: number;
+  /** Tokenizer for the corpus and the compared strings (default: `tokenize`) */
+  tokenizer?: Tokenizer;
+}
+
+/**
+ * Soft TF-IDF scorer returned by `createSoftTfIdf`.
+ */
+export type SoftTfIdfFunction = (s1: string, s2: string, scoreCutoff?: number) => number;
+
+/**
+ * Fits IDF weights on a corpus and returns a Soft TF-IDF scorer
+ * (Cohen, Ravikumar and Fienberg, 2003).
+ *
+ * Both strings become unit-length TF-IDF vectors, weighting each token by
+ * log(1 + count) * idf. Every token of the first string is then paired with
+ * its most similar token of the second; pairs reaching the threshold add the
+ * product of their weights times their similarity. Rare words thus count more
+ * than common ones, and near-identical words still match.
+ *
+ * IDF weights are smoothed, idf = ln((N + 1) / (df + 1)) + 1 for a corpus of
+ * N documents, so words missing from the corpus get the largest weight.
+ *
+ * @example
+ * const softTfIdf = createSoftTfIdf(['acme corp', 'acme inc', 'globex corp', 'initech corp']);
+ * softTfIdf('acme crop', 'acme corp'); // 89.3, "crop" matches "corp"
+ * softTfIdf('acme corp', 'globex corp'); // 33.9, only the common "corp" is shared
+ *
+ * @param corpus - Documents to fit the IDF weights on, typically the choices
+ * @param options - Inner similarity, threshold and tokenizer
+ * @returns Soft TF-IDF scorer (0-100)
+ */
+export function createSoftTfIdf(
+  corpus: string[],
+  options: SoftTfIdfOptions = {}
+): SoftTfIdfFunction {
+  const { similarity = jaroWinklerSimilarity, threshold = 90, tokenizer = tokenize } = options;
+
+  const documentFrequency = new Map<string, number>();
+  for (const document of corpus) {
+    for (const token of new Set(tokenizer(document))) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+  const idf = (token: string): number =>
+    Math.log((corpus.length + 1) / ((documentFrequency.get(token) ?? 0) + 1)) + 1;
+
+  const vectorize = (str: string): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (const token of tokenizer(str)) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    const vector = new Map<string, number>();
+    let norm = 0;
+    for (const [token, count] of counts) {
+      const weight = Math.log(1 + count) * idf(token);
+      vector.set(token, weight);
+      norm += weight * weight;
+    }
+    norm = Math.sqrt(norm);
+    for (const [token, weight] of vector) {
+      vector.set(token, weight / norm);
+    }
+    return vector;
+  };
+
+  return (s1: string, s2: string, scoreCutoff = 0): number => {
+    const vector1 = vectorize(s1);
+    const vector2 = vectorize(s2);
+
+    if (vector1.size === 0 && vector2.size === 0) return 100;
+    if (vector1.size === 0 || vector2.size === 0) return 0;
+
+    let sum = 0;
+    for (const [token1, weight1] of vector1) {
+      let best = 0;
+      let bestWeight = 0;
+      for (const [token2, weight2] of vector2) {
+        const score = token1 === token2 ? 100 : similarity(token1, token2);
+        if (score > best) {
+          best = score;
+          bestWeight = weight2;
+        }
+        if (best === 100) break;
+      }
+      if (best >= threshold) sum += weight1 * bestWeight * (best / 100);
+    }
+
+    // Several tokens may pair with the same token, so the sum can exceed 1
+    const result = Math.min(100, sum * 100);
+    return result >= scoreCutoff ? result : 0;
+  };
+}
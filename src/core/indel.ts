@@ -0,0 +1,119 @@
+/**
+ * Indel distance (insertions and deletions only), based on the longest
+ * common subsequence. Pure functions with no external dependencies.
+ *
+ * This is the basis of RapidFuzz's and python-Levenshtein's `ratio`.
+ */
+
+const WORD_SIZE = 32;
+
+function popcount(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/**
+ * Calculates the length of the longest common subsequence of two strings.
+ *
+ * Uses the bit-parallel algorithm of Hyyrö (2004) over 32-bit words, carrying
+ * the addition between words for patterns longer than one word.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @returns Length of the longest common subsequence
+ */
+export function lcsSeqLength(s1: string, s2: string): number {
+  if (s1 === s2) return s1.length;
+
+  // Optimize: use shorter string as the bit-vector pattern
+  const pattern = s1.length <= s2.length ? s1 : s2;
+  const text = s1.length <= s2.length ? s2 : s1;
+  const m = pattern.length;
+  if (m === 0) return 0;
+
+  const words = Math.ceil(m / WORD_SIZE);
+  const peq = new Map<number, Uint32Array>();
+
+  for (let i = 0; i < m; i++) {
+    const code = pattern.charCodeAt(i);
+    let vector = peq.get(code);
+    if (vector === undefined) {
+      vector = new Uint32Array(words);
+      peq.set(code, vector);
+    }
+    const word = (i / WORD_SIZE) | 0;
+    vector[word] = ((vector[word] ?? 0) | (1 << i % WORD_SIZE)) >>> 0;
+  }
+
+  // Zero bits in S mark positions of the pattern that are part of the LCS
+  const state = new Uint32Array(words).fill(0xffffffff);
+
+  for (let j = 0; j < text.length; j++) {
+    const matches = peq.get(text.charCodeAt(j));
+    if (matches === undefined) continue;
+
+    let carry = 0;
+    for (let w = 0; w < words; w++) {
+      const s = state[w] ?? 0;
+      const u = (s & (matches[w] ?? 0)) >>> 0;
+      const sum = s + u + carry;
+      carry = sum > 0xffffffff ? 1 : 0;
+      state[w] = ((sum >>> 0) | (s & ~u)) >>> 0;
+    }
+  }
+
+  let length = 0;
+  for (let w = 0; w < words; w++) {
+    const bits = WORD_SIZE * (w + 1) <= m ? WORD_SIZE : m % WORD_SIZE;
+    const mask = bits === WORD_SIZE ? 0xffffffff : (1 << bits) - 1;
+    length += popcount(~(state[w] ?? 0) & mask);
+  }
+  return length;
+}
+
+/**
+ * Calculates the Indel distance: the minimum number of insertions and
+ * deletions transforming s1 into s2 (a substitution counts as two edits).
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @returns Indel distance between the two strings
+ */
+export function indelDistance(s1: string, s2: string): number {
+  return s1.length + s2.length - 2 * lcsSeqLength(s1, s2);
+}
+
+/**
+ * Calculates the normalized Indel similarity, 1 - distance / (len1 + len2).
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @returns Normalized similarity (0-1), 1 for identical strings
+ */
+export function indelNormalizedSimilarity(s1: string, s2: string): number {
+  const lenSum = s1.length + s2.length;
+  if (lenSum === 0) return 1;
+  return 1 - indelDistance(s1, s2) / lenSum;
+}
+
+/**
+ * Calculates similarity ratio between two strings using Indel distance.
+ * Reproduces RapidFuzz's `fuzz.ratio`.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @returns Similarity ratio (0-100)
+ */
+export function indelRatio(s1: string, s2: string, scoreCutoff = 0): number {
+  if (s1 === s2) return 100;
+
+  // The LCS is at most the shorter length, which bounds the achievable score
+  const lenSum = s1.length + s2.length;
+  const upperBound = (200 * Math.min(s1.length, s2.length)) / lenSum;
+  if (upperBound < scoreCutoff) return 0;
+
+  const ratio = indelNormalizedSimilarity(s1, s2) * 100;
+  return ratio >= scoreCutoff ? ratio : 0;
+}
@@ -3,9 +3,126 @@
  * beyond other core modules.
  */
 
-export { levenshteinDistance, levenshteinRatio } from './levenshtein';
-export { partialRatio } from './partialRatio';
+export {
+  levenshteinDistance,
+  levenshteinRatio,
+  weightedLevenshteinDistance,
+  weightedLevenshteinRatio,
+  type EditCosts,
+  type MultiCharSubstitution,
+} from './levenshtein';
+export {
+  keyboardSubstitutionCost,
+  ocrSubstitutionCost,
+  substitutionTableCosts,
+  type KeyboardLayout,
+  type SubstitutionTable,
+  type SubstitutionTableOptions,
+} from './substitutionCosts';
+export {
+  osaDistance,
+  osaRatio,
+  damerauLevenshteinDistance,
+  damerauLevenshteinRatio,
+} from './damerauLevenshtein';
+export { jaro, jaroWinkler, type JaroWinklerOptions } from './jaro';
+export { hammingDistance, hammingRatio } from './hamming';
+export {
+  longestCommonSubstring,
+  longestCommonSubstringRatio,
+  matchingBlocks,
+  ratcliffObershelpRatio,
+  type MatchingBlock,
+  type RatcliffObershelpOptions,
+} from './sequenceMatcher';
+export {
+  smithWaterman,
+  smithWatermanRatio,
+  needlemanWunsch,
+  needlemanWunschRatio,
+  type AlignmentOptions,
+  type AlignmentResult,
+} from './alignment';
+export {
+  soundex,
+  refinedSoundex,
+  metaphone,
+  nysiis,
+  phoneticEncode,
+  phoneticRatio,
+  type PhoneticAlgorithm,
+  type PhoneticOptions,
+} from './phonetic';
+export { doubleMetaphone } from './doubleMetaphone';
+export {
+  qgrams,
+  qgramJaccard,
+  qgramDice,
+  qgramOverlap,
+  qgramCosine,
+  type QGramOptions,
+} from './qgram';
+export {
+  editops,
+  opcodes,
+  editopsToOpcodes,
+  applyEditops,
+  applyOpcodes,
+  invertEditops,
+  invertOpcodes,
+  type EditOp,
+  type EditOpType,
+  type Opcode,
+  type OpcodeType,
+} from './editops';
+export { lcsSeqLength, indelDistance, indelNormalizedSimilarity, indelRatio } from './indel';
+export { splitUnits, unitLength, encodeUnits, withUnicodeMode, type UnicodeMode } from './unicode';
+export { getBaseRatio, type RatioMode, type RatioOptions } from './ratioOptions';
+export { partialRatio, partialRatioAlignment, type ScoreAlignment } from './partialRatio';
 export { tokenSortRatio } from './tokenSortRatio';
 export { tokenSetRatio } from './tokenSetRatio';
-export { weightedRatio } from './weightedRatio';
-export { tokenize, sortTokens, tokenSet } from './tokenizer';
+export { partialTokenSortRatio } from './partialTokenSortRatio';
+export { partialTokenSetRatio } from './partialTokenSetRatio';
+export { tokenRatio, partialTokenRatio } from './tokenRatio';
+export {
+  weightedRatio,
+  createWeightedRatio,
+  type WeightedRatioOptions,
+  type WeightedRatioConfig,
+  type WeightedRatioBranch,
+  type WeightedRatioScorer,
+  type WeightedRatioFunction,
+} from './weightedRatio';
+export {
+  tokenize,
+  createTokenizer,
+  createLocaleTokenizer,
+  sortTokens,
+  tokenSet,
+  type Tokenizer,
+  type TokenizerOptions,
+  type LocaleTokenizerOptions,
+  type TokenProcessor,
+} from './tokenizer';
+export { getStopwords, removeStopwords, type StopwordLanguage } from './stopwords';
+export { porterStem, stemTokens } from './stemmer';
+export {
+  createSynonymNormalizer,
+  parseSynonymDictionary,
+  type SynonymDictionary,
+} from './synonyms';
+export { transliterate, type TransliterationScript } from './transliteration';
+export {
+  mongeElkanRatio,
+  createSoftTfIdf,
+  type TokenSimilarity,
+  type MongeElkanOptions,
+  type SoftTfIdfOptions,
+  type SoftTfIdfFunction,
+} from './hybrid';
+export {
+  subsequenceMatch,
+  subsequenceRatio,
+  type SubsequenceMatch,
+  type SubsequenceOptions,
+} from './subsequence';
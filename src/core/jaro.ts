@@ -0,0 +1,102 @@
+/**
+ * Jaro and Jaro-Winkler similarity.
+ * Pure functions with no external dependencies.
+ *
+ * Both return a similarity between 0 and 1, where 1 indicates identical strings.
+ * They are well suited to short strings such as person names and product codes.
+ */
+
+export interface JaroWinklerOptions {
+  /**
+   * Weight given to each matching prefix character (default: 0.1); times
+   * `maxPrefixLength` it may be at most 1
+   */
+  prefixScale?: number;
+  /** Jaro similarity above which the prefix boost is applied (default: 0.7) */
+  boostThreshold?: number;
+  /** Maximum number of prefix characters considered (default: 4) */
+  maxPrefixLength?: number;
+}
+
+/**
+ * Calculates Jaro similarity between two strings.
+ * Characters match when equal and no further apart than
+ * floor(max(len1, len2) / 2) - 1 positions.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @returns Jaro similarity (0-1)
+ */
+export function jaro(s1: string, s2: string): number {
+  const len1 = s1.length;
+  const len2 = s2.length;
+
+  // Early exit for identical strings (includes both empty)
+  if (s1 === s2) return 1;
+  if (len1 === 0 || len2 === 0) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(len1, len2) / 2) - 1);
+  const matched1 = new Uint8Array(len1);
+  const matched2 = new Uint8Array(len2);
+
+  let matches = 0;
+  for (let i = 0; i < len1; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(len2 - 1, i + matchWindow);
+    const c1 = s1[i];
+
+    for (let j = start; j <= end; j++) {
+      if (matched2[j] === 1 || s2[j] !== c1) continue;
+      matched1[i] = 1;
+      matched2[j] = 1;
+      matches++;
+      break;
+    }
+  }
+
+  if (matches === 0) return 0;
+
+  // Count matched characters that appear in a different order
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < len1; i++) {
+    if (matched1[i] === 0) continue;
+    while (matched2[k] === 0) k++;
+    if (s1[i] !== s2[k]) transpositions++;
+    k++;
+  }
+
+  const m = matches;
+  return (m / len1 + m / len2 + (m - transpositions / 2) / m) / 3;
+}
+
+/**
+ * Calculates Jaro-Winkler similarity between two strings.
+ * Boosts the Jaro similarity for strings sharing a common prefix, which
+ * favours typos towards the end of a word.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param options - Prefix scale, boost threshold and maximum prefix length
+ * @returns Jaro-Winkler similarity (0-1)
+ * @throws {Error} If prefixScale is negative or prefixScale * maxPrefixLength
+ *   exceeds 1 (the result could exceed 1)
+ */
+export function jaroWinkler(s1: string, s2: string, options: JaroWinklerOptions = {}): number {
+  const { prefixScale = 0.1, boostThreshold = 0.7, maxPrefixLength = 4 } = options;
+
+  if (prefixScale < 0 || prefixScale * maxPrefixLength > 1) {
+    throw new Error('prefixScale must be non-negative and prefixScale * maxPrefixLength at most 1');
+  }
+
+  const similarity = jaro(s1, s2);
+  if (similarity <= boostThreshold) return similarity;
+
+  const limit = Math.min(maxPrefixLength, s1.length, s2.length);
+  let prefix = 0;
+  while (prefix < limit && s1[prefix] === s2[prefix]) {
+    prefix++;
+  }
+
+  return similarity + prefix * prefixScale * (1 - similarity);
+}
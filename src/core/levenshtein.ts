@@ -1,70 +1,197 @@
+import { encodeUnits, splitUnits, unitLength, type UnicodeMode } from './unicode';
+
+const WORD_SIZE = 32;
+
+// Reusable pattern-match table for code units below 256. Entries are reset
+// after every call so the table is always zeroed between calls.
+const asciiPeq = new Int32Array(256);
+
 /**
  * Core Levenshtein distance algorithm.
  * Pure function with no external dependencies.
  *
- * Implements space-optimized dynamic programming with O(min(m,n)) space complexity.
- * Uses early exits and optimized array operations for maximum performance.
+ * Implements Myers' bit-parallel algorithm in Hyyrö's formulation: each column
+ * of the DP matrix is encoded as vertical delta bit vectors, so a whole column
+ * is advanced with a handful of bitwise operations. Patterns of up to 32
+ * characters fit a single machine word; longer patterns (including the
+ * 33-64 character range) use the blocked variant over 32-bit words.
+ * Common prefixes and suffixes are stripped first since they never affect the
+ * distance.
+ *
+ * Runs in O(ceil(m/32) * n) time and O(ceil(m/32) * sigma) space.
+ *
+ * When `maxDistance` is given, the computation stops as soon as the distance is
+ * known to exceed it: the length difference is a lower bound, and after each
+ * column the remaining columns can lower the result by at most one each.
  *
  * @param s1 - First string
  * @param s2 - Second string
- * @returns Levenshtein distance between the two strings
- * @throws {Error} If array bounds are exceeded (should never happen in practice)
+ * @param maxDistance - Largest distance of interest (default: unbounded)
+ * @returns Levenshtein distance, or `maxDistance + 1` if it exceeds `maxDistance`
  */
-export function levenshteinDistance(s1: string, s2: string): number {
-  const len1 = s1.length;
-  const len2 = s2.length;
+export function levenshteinDistance(s1: string, s2: string, maxDistance = Infinity): number {
+  // Early exit for identical strings
+  if (s1 === s2) return 0;
+  if (Math.abs(s1.length - s2.length) > maxDistance) return maxDistance + 1;
+
+  // Optimize: use shorter string as the bit-vector pattern
+  if (s1.length > s2.length) {
+    const temp = s1;
+    s1 = s2;
+    s2 = temp;
+  }
+
+  let start = 0;
+  let end1 = s1.length;
+  let end2 = s2.length;
+
+  while (start < end1 && s1.charCodeAt(start) === s2.charCodeAt(start)) {
+    start++;
+  }
+  while (start < end1 && s1.charCodeAt(end1 - 1) === s2.charCodeAt(end2 - 1)) {
+    end1--;
+    end2--;
+  }
+
+  const len1 = end1 - start;
+  const len2 = end2 - start;
 
   if (len1 === 0) return len2;
-  if (len2 === 0) return len1;
 
-  // Early exit for identical strings
-  if (s1 === s2) return 0;
+  const distance =
+    len1 <= WORD_SIZE
+      ? myersSingleWord(s1, start, len1, s2, start, len2, maxDistance)
+      : myersBlocked(s1, start, len1, s2, start, len2, maxDistance);
+  return distance <= maxDistance ? distance : maxDistance + 1;
+}
+
+/**
+ * Single-word Myers/Hyyrö for patterns of at most 32 code units.
+ */
+function myersSingleWord(
+  pattern: string,
+  pStart: number,
+  m: number,
+  text: string,
+  tStart: number,
+  n: number,
+  maxDistance: number
+): number {
+  let extendedPeq: Map<number, number> | null = null;
 
-  // Optimize: use shorter string as inner dimension
-  if (len1 < len2) {
-    return levenshteinDistance(s2, s1);
+  for (let i = 0; i < m; i++) {
+    const code = pattern.charCodeAt(pStart + i);
+    if (code < 256) {
+      asciiPeq[code] = (asciiPeq[code] ?? 0) | (1 << i);
+    } else {
+      if (extendedPeq === null) extendedPeq = new Map<number, number>();
+      extendedPeq.set(code, (extendedPeq.get(code) ?? 0) | (1 << i));
+    }
   }
 
-  // Pre-allocate arrays for better performance
-  const row1: number[] = new Array<number>(len2 + 1);
-  const row2: number[] = new Array<number>(len2 + 1);
+  const last = 1 << (m - 1);
+  let vp = -1;
+  let vn = 0;
+  let score = m;
 
-  // Initialize first row
-  for (let j = 0; j <= len2; j++) {
-    row1[j] = j;
+  for (let j = 0; j < n; j++) {
+    const code = text.charCodeAt(tStart + j);
+    const eq = code < 256 ? (asciiPeq[code] ?? 0) : (extendedPeq?.get(code) ?? 0);
+
+    const d0 = (((eq & vp) + vp) ^ vp) | eq | vn;
+    let hp = vn | ~(d0 | vp);
+    let hn = d0 & vp;
+
+    if ((hp & last) !== 0) score++;
+    else if ((hn & last) !== 0) score--;
+
+    hp = (hp << 1) | 1;
+    hn = hn << 1;
+
+    vp = hn | ~(d0 | hp);
+    vn = hp & d0;
+
+    if (score - (n - j - 1) > maxDistance) {
+      score = maxDistance + 1;
+      break;
+    }
   }
 
-  // Compute distance with efficient row swapping
-  let prevRow = row1;
-  let currRow = row2;
+  for (let i = 0; i < m; i++) {
+    const code = pattern.charCodeAt(pStart + i);
+    if (code < 256) asciiPeq[code] = 0;
+  }
 
-  for (let i = 1; i <= len1; i++) {
-    currRow[0] = i;
+  return score;
+}
 
-    for (let j = 1; j <= len2; j++) {
-      const cost = s1[i - 1] === s2[j - 1] ? 0 : 1;
-      const currJMinus1 = currRow[j - 1];
-      const prevJ = prevRow[j];
-      const prevJMinus1 = prevRow[j - 1];
+/**
+ * Blocked Myers/Hyyrö for patterns longer than one word.
+ * Horizontal deltas are carried from each word into the next.
+ */
+function myersBlocked(
+  pattern: string,
+  pStart: number,
+  m: number,
+  text: string,
+  tStart: number,
+  n: number,
+  maxDistance: number
+): number {
+  const words = Math.ceil(m / WORD_SIZE);
+  const peq = new Map<number, Int32Array>();
+
+  for (let i = 0; i < m; i++) {
+    const code = pattern.charCodeAt(pStart + i);
+    let vector = peq.get(code);
+    if (vector === undefined) {
+      vector = new Int32Array(words);
+      peq.set(code, vector);
+    }
+    const word = (i / WORD_SIZE) | 0;
+    vector[word] = (vector[word] ?? 0) | (1 << i % WORD_SIZE);
+  }
+
+  const vpWords = new Int32Array(words).fill(-1);
+  const vnWords = new Int32Array(words);
+  const lastWord = words - 1;
+  const last = 1 << (m - 1) % WORD_SIZE;
+  let score = m;
 
-      if (currJMinus1 === undefined || prevJ === undefined || prevJMinus1 === undefined) {
-        throw new Error('Array index out of bounds');
+  for (let j = 0; j < n; j++) {
+    const eqWords = peq.get(text.charCodeAt(tStart + j));
+    let hpCarry = 1;
+    let hnCarry = 0;
+
+    for (let w = 0; w < words; w++) {
+      const vp = vpWords[w] ?? 0;
+      const vn = vnWords[w] ?? 0;
+      const eq = (eqWords === undefined ? 0 : (eqWords[w] ?? 0)) | hnCarry;
+
+      const d0 = (((eq & vp) + vp) ^ vp) | eq | vn;
+      let hp = vn | ~(d0 | vp);
+      let hn = d0 & vp;
+
+      if (w === lastWord) {
+        if ((hp & last) !== 0) score++;
+        else if ((hn & last) !== 0) score--;
       }
 
-      currRow[j] = Math.min(currJMinus1 + 1, prevJ + 1, prevJMinus1 + cost);
+      const hpOut = hp >>> 31;
+      const hnOut = hn >>> 31;
+      hp = (hp << 1) | hpCarry;
+      hn = (hn << 1) | hnCarry;
+      hpCarry = hpOut;
+      hnCarry = hnOut;
+
+      vpWords[w] = hn | ~(d0 | hp);
+      vnWords[w] = hp & d0;
     }
 
-    // Swap row references (zero-copy, just pointer swap)
-    const temp = prevRow;
-    prevRow = currRow;
-    currRow = temp;
+    if (score - (n - j - 1) > maxDistance) return maxDistance + 1;
   }
 
-  const result = prevRow[len2];
-  if (result === undefined) {
-    throw new Error('Array index out of bounds');
-  }
-  return result;
+  return score;
 }
 
 /**
@@ -73,20 +200,228 @@ export function levenshteinDistance(s1: string, s2: string): number {
  *
  * @param s1 - First string
  * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
  * @returns Similarity ratio (0-100)
  */
-export function levenshteinRatio(s1: string, s2: string): number {
+export function levenshteinRatio(s1: string, s2: string, scoreCutoff = 0): number {
   // Early exit optimizations
   if (s1 === s2) return 100;
+  if (scoreCutoff > 100) return 0;
 
-  const distance = levenshteinDistance(s1, s2);
   const maxLen = Math.max(s1.length, s2.length);
-
   if (maxLen === 0) return 100;
 
+  // Round the band up so floating point error never rejects a qualifying score;
+  // the final comparison below is exact
+  const maxDistance = Math.ceil(maxLen * (1 - scoreCutoff / 100));
+  const distance = levenshteinDistance(s1, s2, maxDistance);
+
   // Avoid division when possible
   if (distance === 0) return 100;
   if (distance >= maxLen) return 0;
 
-  return ((maxLen - distance) / maxLen) * 100;
+  const ratio = ((maxLen - distance) / maxLen) * 100;
+  return ratio >= scoreCutoff ? ratio : 0;
+}
+
+/**
+ * Edit operation costs for weighted Levenshtein distance.
+ * Costs describe transforming the first string into the second.
+ */
+export interface EditCosts {
+  /** Cost of inserting a character (default: 1) */
+  insertion?: number;
+  /** Cost of deleting a character (default: 1) */
+  deletion?: number;
+  /** Cost of substituting one character for another (default: 1) */
+  substitution?: number;
+  /**
+   * Per-character-pair substitution cost, called only for differing characters.
+   * Overrides `substitution` in the distance; `weightedLevenshteinRatio` still
+   * normalizes by `substitution`, which should be the cost of unrelated characters.
+   */
+  substitutionCost?: (from: string, to: string) => number;
+  /**
+   * Substitutions of whole character sequences, such as OCR reading "rn" as "m".
+   * Applied in the given direction only.
+   */
+  multiCharSubstitutions?: ReadonlyArray<MultiCharSubstitution>;
+}
+
+export interface MultiCharSubstitution {
+  from: string;
+  to: string;
+  cost: number;
+}
+
+/**
+ * Whether `sequence` occurs in `units` ending right before `end`.
+ */
+function endsWithUnits(units: string[], end: number, sequence: string[]): boolean {
+  const start = end - sequence.length;
+  if (start < 0) return false;
+  for (let k = 0; k < sequence.length; k++) {
+    if (units[start + k] !== sequence[k]) return false;
+  }
+  return true;
+}
+
+/**
+ * Calculates generalized Levenshtein distance with separate insertion,
+ * deletion and substitution weights.
+ * Falls back to the bit-parallel `levenshteinDistance` for unit costs.
+ *
+ * Uses two-row dynamic programming with O(n) space, or the full matrix when
+ * multi-character substitutions are configured. Substitution cost callbacks
+ * and multi-character substitutions see the units of the chosen mode, such
+ * as whole grapheme clusters.
+ *
+ * @param s1 - Source string
+ * @param s2 - Target string
+ * @param costs - Edit operation costs
+ * @param unicode - Unit of comparison (default: 'codeUnit')
+ * @returns Minimal total cost of transforming s1 into s2
+ * @throws {Error} If a constant cost is negative
+ */
+export function weightedLevenshteinDistance(
+  s1: string,
+  s2: string,
+  costs: EditCosts = {},
+  unicode: UnicodeMode = 'codeUnit'
+): number {
+  const {
+    insertion = 1,
+    deletion = 1,
+    substitution = 1,
+    substitutionCost,
+    multiCharSubstitutions = [],
+  } = costs;
+
+  if (insertion < 0 || deletion < 0 || substitution < 0) {
+    throw new Error('Edit costs must be non-negative');
+  }
+  for (const sub of multiCharSubstitutions) {
+    if (sub.cost < 0 || sub.from.length === 0 || sub.to.length === 0) {
+      throw new Error(
+        'Multi-character substitutions need non-empty sequences and a non-negative cost'
+      );
+    }
+  }
+
+  if (s1 === s2) return 0;
+  if (
+    insertion === 1 &&
+    deletion === 1 &&
+    substitution === 1 &&
+    substitutionCost === undefined &&
+    multiCharSubstitutions.length === 0
+  ) {
+    return levenshteinDistance(...encodeUnits(s1, s2, unicode));
+  }
+
+  const units1 = splitUnits(s1, unicode);
+  const units2 = splitUnits(s2, unicode);
+  const sequences = multiCharSubstitutions.map((sub) => ({
+    from: splitUnits(sub.from, unicode),
+    to: splitUnits(sub.to, unicode),
+    cost: sub.cost,
+  }));
+  const len1 = units1.length;
+  const len2 = units2.length;
+  const keepRows = multiCharSubstitutions.length > 0;
+  // Completed rows, only retained when multi-character substitutions need to look back
+  const rows: number[][] = [];
+
+  let prevRow = new Array<number>(len2 + 1);
+  let currRow = new Array<number>(len2 + 1);
+
+  for (let j = 0; j <= len2; j++) {
+    prevRow[j] = j * insertion;
+  }
+  if (keepRows) rows.push(prevRow);
+
+  for (let i = 1; i <= len1; i++) {
+    if (keepRows) currRow = new Array<number>(len2 + 1);
+    currRow[0] = i * deletion;
+    const c1 = units1[i - 1] ?? '';
+
+    for (let j = 1; j <= len2; j++) {
+      const c2 = units2[j - 1] ?? '';
+      let cost = 0;
+      if (c1 !== c2) {
+        cost = substitutionCost !== undefined ? substitutionCost(c1, c2) : substitution;
+      }
+
+      let value = Math.min(
+        (prevRow[j] ?? 0) + deletion,
+        (currRow[j - 1] ?? 0) + insertion,
+        (prevRow[j - 1] ?? 0) + cost
+      );
+
+      for (const sub of sequences) {
+        if (endsWithUnits(units1, i, sub.from) && endsWithUnits(units2, j, sub.to)) {
+          const fromStart = i - sub.from.length;
+          const toStart = j - sub.to.length;
+          value = Math.min(value, (rows[fromStart]?.[toStart] ?? Infinity) + sub.cost);
+        }
+      }
+
+      currRow[j] = value;
+    }
+
+    if (keepRows) {
+      rows.push(currRow);
+      prevRow = currRow;
+    } else {
+      // Swap row references (zero-copy, just pointer swap)
+      const temp = prevRow;
+      prevRow = currRow;
+      currRow = temp;
+    }
+  }
+
+  return prevRow[len2] ?? 0;
+}
+
+/**
+ * Calculates similarity ratio between two strings using weighted Levenshtein
+ * distance, normalized by the distance between unrelated strings of the same
+ * lengths, so such strings score 0. With unit costs this equals `levenshteinRatio`.
+ *
+ * @param s1 - Source string
+ * @param s2 - Target string
+ * @param costs - Edit operation costs
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param unicode - Unit of comparison (default: 'codeUnit')
+ * @returns Similarity ratio (0-100)
+ */
+export function weightedLevenshteinRatio(
+  s1: string,
+  s2: string,
+  costs: EditCosts = {},
+  scoreCutoff = 0,
+  unicode: UnicodeMode = 'codeUnit'
+): number {
+  if (s1 === s2) return 100;
+
+  const { insertion = 1, deletion = 1, substitution = 1 } = costs;
+  const len1 = unitLength(s1, unicode);
+  const len2 = unitLength(s2, unicode);
+
+  // Deleting everything and inserting everything is always possible, and so is
+  // substituting the overlap. A per-pair substitution cost is normalized by
+  // `substitution`, its cost for unrelated characters
+  const overlap = Math.min(len1, len2);
+  const maxDistance = Math.min(
+    len1 * deletion + len2 * insertion,
+    overlap * substitution + (len1 - overlap) * deletion + (len2 - overlap) * insertion
+  );
+
+  if (maxDistance === 0) return 100;
+
+  const distance = weightedLevenshteinDistance(s1, s2, costs, unicode);
+  if (distance >= maxDistance) return 0;
+
+  const ratio = ((maxDistance - distance) / maxDistance) * 100;
+  return ratio >= scoreCutoff ? ratio : 0;
 }
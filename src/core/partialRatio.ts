@@ -1,32 +1,125 @@
-import { levenshteinRatio } from './levenshtein';
+import { getBaseRatio, type RatioOptions } from './ratioOptions';
+import { encodeUnits } from './unicode';
 
-export function partialRatio(s1: string, s2: string): number {
-  const shorter = s1.length <= s2.length ? s1 : s2;
-  const longer = s1.length > s2.length ? s1 : s2;
+/**
+ * Score together with the aligned ranges of both strings.
+ * Ranges are half-open: [start, end).
+ */
+export interface ScoreAlignment {
+  score: number;
+  /** Start of the aligned range in the first string */
+  sourceStart: number;
+  /** End of the aligned range in the first string */
+  sourceEnd: number;
+  /** Start of the aligned range in the second string */
+  destStart: number;
+  /** End of the aligned range in the second string */
+  destEnd: number;
+}
 
-  if (shorter.length === 0) return 0;
-  if (longer.length === 0) return 0;
+/**
+ * Finds the best-scoring window of `longer` with the length of `shorter`.
+ * Returns the first such window on ties.
+ */
+function findBestWindow(
+  shorter: string,
+  longer: string,
+  scoreCutoff: number,
+  options: RatioOptions
+): { score: number; start: number } {
+  if (shorter.length === 0) return { score: 0, start: 0 };
 
-  // Early exit optimizations
-  if (longer.includes(shorter)) return 100;
-  // If strings start or end the same, likely high match
-  if (longer.startsWith(shorter) || longer.endsWith(shorter)) {
-    return 100;
-  }
+  // Early exit optimizations: exact substring (covers prefix and suffix matches)
+  const index = longer.indexOf(shorter);
+  if (index !== -1) return { score: 100, start: index };
 
+  const baseRatio = getBaseRatio(options.mode);
   let bestRatio = 0;
+  let bestStart = 0;
   const windowSize = shorter.length;
   const maxPos = longer.length - windowSize;
 
   // Optimize: for very short strings, use substring. For longer, we could optimize further.
   for (let i = 0; i <= maxPos; i++) {
     const substring = longer.substring(i, i + windowSize);
-    const ratio = levenshteinRatio(shorter, substring);
-    bestRatio = Math.max(bestRatio, ratio);
+    // Windows that cannot beat the current best are cut off early
+    const ratio = baseRatio(shorter, substring, Math.max(bestRatio, scoreCutoff));
+    if (ratio > bestRatio) {
+      bestRatio = ratio;
+      bestStart = i;
+    }
 
     // Early exit: perfect match found
     if (bestRatio === 100) break;
   }
 
-  return bestRatio;
+  return { score: bestRatio >= scoreCutoff ? bestRatio : 0, start: bestStart };
+}
+
+/**
+ * Finds the best ratio between the shorter string and any equally long
+ * window of the longer string.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Base ratio mode and unit of comparison
+ * @returns Best partial ratio (0-100)
+ */
+export function partialRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: RatioOptions = {}
+): number {
+  const [u1, u2] = encodeUnits(s1, s2, options.unicode ?? 'codeUnit');
+  const shorter = u1.length <= u2.length ? u1 : u2;
+  const longer = u1.length > u2.length ? u1 : u2;
+
+  return findBestWindow(shorter, longer, scoreCutoff, options).score;
+}
+
+/**
+ * Same as `partialRatio`, but also reports where the best match was found:
+ * the whole shorter string is aligned with the best window of the longer one.
+ * Useful for highlighting the matched region.
+ * With a unicode mode other than 'codeUnit', ranges count code points or
+ * grapheme clusters.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Base ratio mode and unit of comparison
+ * @returns Best partial ratio (0-100) with the aligned ranges of s1 and s2
+ */
+export function partialRatioAlignment(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: RatioOptions = {}
+): ScoreAlignment {
+  if (options.unicode !== undefined && options.unicode !== 'codeUnit') {
+    const [u1, u2] = encodeUnits(s1, s2, options.unicode);
+    return partialRatioAlignment(u1, u2, scoreCutoff, { ...options, unicode: 'codeUnit' });
+  }
+
+  if (s1.length <= s2.length) {
+    const { score, start } = findBestWindow(s1, s2, scoreCutoff, options);
+    return {
+      score,
+      sourceStart: 0,
+      sourceEnd: s1.length,
+      destStart: start,
+      destEnd: start + s1.length,
+    };
+  }
+
+  const { score, start } = findBestWindow(s2, s1, scoreCutoff, options);
+  return {
+    score,
+    sourceStart: start,
+    sourceEnd: start + s2.length,
+    destStart: 0,
+    destEnd: s2.length,
+  };
 }
@@ -0,0 +1,38 @@
+import { tokenSet, sortTokens } from './tokenizer';
+import { partialRatio } from './partialRatio';
+import { getTokenizer, type RatioOptions } from './ratioOptions';
+
+/**
+ * Partial ratio of the token sets. Any shared token is a perfect match;
+ * otherwise the sorted unique tokens are compared with `partialRatio`.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Base ratio mode, unit of comparison, tokenizer and token processor
+ * @returns Partial token set ratio (0-100)
+ */
+export function partialTokenSetRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: RatioOptions = {}
+): number {
+  const split = getTokenizer(options);
+  const tokens1 = split(s1);
+  const tokens2 = split(s2);
+
+  if (tokens1.length === 0 && tokens2.length === 0) return 100;
+  if (tokens1.length === 0 || tokens2.length === 0) return 0;
+
+  const set1 = tokenSet(tokens1);
+  const set2 = tokenSet(tokens2);
+  for (const token of set1) {
+    if (set2.has(token)) return 100;
+  }
+
+  return partialRatio(sortTokens(Array.from(set1)), sortTokens(Array.from(set2)), scoreCutoff, {
+    mode: options.mode,
+    unicode: options.unicode,
+  });
+}
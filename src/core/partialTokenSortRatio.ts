@@ -0,0 +1,32 @@
+import { sortTokens } from './tokenizer';
+import { partialRatio } from './partialRatio';
+import { getTokenizer, type RatioOptions } from './ratioOptions';
+
+/**
+ * Partial ratio of the sorted tokens, so word order is ignored and the
+ * shorter string may match any part of the longer one.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Base ratio mode, unit of comparison, tokenizer and token processor
+ * @returns Partial token sort ratio (0-100)
+ */
+export function partialTokenSortRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: RatioOptions = {}
+): number {
+  const split = getTokenizer(options);
+  const tokens1 = split(s1);
+  const tokens2 = split(s2);
+
+  if (tokens1.length === 0 && tokens2.length === 0) return 100;
+  if (tokens1.length === 0 || tokens2.length === 0) return 0;
+
+  return partialRatio(sortTokens(tokens1), sortTokens(tokens2), scoreCutoff, {
+    mode: options.mode,
+    unicode: options.unicode,
+  });
+}
@@ -0,0 +1,394 @@
+/**
+ * Phonetic encoders and a phonetic similarity ratio.
+ * Pure functions with no external dependencies beyond other core modules.
+ *
+ * Encoders map words that sound alike to the same (or a similar) code, e.g.
+ * "Smith" and "Smyth" both encode to S530 with Soundex. Non-letters are
+ * ignored; input is expected in Latin script.
+ */
+
+import { doubleMetaphone } from './doubleMetaphone';
+import { levenshteinRatio } from './levenshtein';
+import { tokenize } from './tokenizer';
+
+export type PhoneticAlgorithm =
+  | 'soundex'
+  | 'refinedSoundex'
+  | 'metaphone'
+  | 'doubleMetaphone'
+  | 'nysiis';
+
+export interface PhoneticOptions {
+  /** Encoder used to compare the strings (default: 'doubleMetaphone') */
+  algorithm?: PhoneticAlgorithm;
+}
+
+/** Soundex digit for each letter A-Z; '0' separates, '' is ignored (H, W) */
+const SOUNDEX_CODES = '01230120022455012623010202';
+
+/** Refined Soundex digit for each letter A-Z */
+const REFINED_SOUNDEX_CODES = '01360240043788015936020505';
+
+function lettersOnly(word: string): string {
+  return word.toUpperCase().replace(/[^A-Z]/g, '');
+}
+
+function letterIndex(char: string): number {
+  return char.charCodeAt(0) - 65;
+}
+
+/**
+ * Encodes a word with American Soundex: the first letter followed by three
+ * digits. Letters separated only by H or W share a digit.
+ *
+ * @param word - Word to encode
+ * @returns Four-character Soundex code, or '' if the word has no letters
+ */
+export function soundex(word: string): string {
+  const letters = lettersOnly(word);
+  const first = letters[0];
+  if (first === undefined) return '';
+
+  let code = first;
+  let last = SOUNDEX_CODES[letterIndex(first)] ?? '';
+
+  for (let i = 1; i < letters.length && code.length < 4; i++) {
+    const char = letters[i] ?? '';
+    // H and W neither produce a digit nor separate equal digits
+    if (char === 'H' || char === 'W') continue;
+
+    const digit = SOUNDEX_CODES[letterIndex(char)] ?? '0';
+    if (digit !== '0' && digit !== last) code += digit;
+    last = digit;
+  }
+
+  return code.padEnd(4, '0');
+}
+
+/**
+ * Encodes a word with Refined Soundex, which uses more digit groups than
+ * Soundex and does not truncate.
+ *
+ * @param word - Word to encode
+ * @returns Refined Soundex code, or '' if the word has no letters
+ */
+export function refinedSoundex(word: string): string {
+  const letters = lettersOnly(word);
+  const first = letters[0];
+  if (first === undefined) return '';
+
+  let code = first;
+  let last = '';
+  for (const char of letters) {
+    const digit = REFINED_SOUNDEX_CODES[letterIndex(char)] ?? '';
+    if (digit !== last) code += digit;
+    last = digit;
+  }
+
+  return code;
+}
+
+const isVowel = (char: string | undefined): boolean =>
+  char !== undefined && char.length === 1 && 'AEIOU'.includes(char);
+
+/**
+ * Encodes a word with the original Metaphone algorithm (Lawrence Philips,
+ * 1990), following the widely used Apache Commons Codec rules.
+ *
+ * @param word - Word to encode
+ * @param maxLength - Maximum code length (default: 4)
+ * @returns Metaphone code, or '' if the word has no letters
+ */
+export function metaphone(word: string, maxLength = 4): string {
+  const input = lettersOnly(word);
+  if (input.length === 0) return '';
+  if (input.length === 1) return input;
+
+  // Initial letter exceptions
+  let local: string;
+  const second = input[1];
+  switch (input[0]) {
+    case 'K':
+    case 'G':
+    case 'P':
+      local = second === 'N' ? input.slice(1) : input;
+      break;
+    case 'A':
+      local = second === 'E' ? input.slice(1) : input;
+      break;
+    case 'W':
+      if (second === 'R') {
+        local = input.slice(1);
+      } else if (second === 'H') {
+        local = 'W' + input.slice(2);
+      } else {
+        local = input;
+      }
+      break;
+    case 'X':
+      local = 'S' + input.slice(1);
+      break;
+    default:
+      local = input;
+  }
+
+  const size = local.length;
+  const at = (index: number): string | undefined => local[index];
+  const isLast = (index: number): boolean => index + 1 === size;
+  const regionMatches = (index: number, test: string): boolean => local.startsWith(test, index);
+  const isFrontVowel = (index: number): boolean => {
+    const char = at(index);
+    return char !== undefined && 'EIY'.includes(char);
+  };
+
+  let code = '';
+  for (let n = 0; n < size && code.length < maxLength; n++) {
+    const symbol = at(n) ?? '';
+    const previous = at(n - 1);
+    const next = at(n + 1);
+
+    // Drop duplicate adjacent letters, except C
+    if (symbol !== 'C' && previous === symbol) continue;
+
+    switch (symbol) {
+      case 'A':
+      case 'E':
+      case 'I':
+      case 'O':
+      case 'U':
+        if (n === 0) code += symbol;
+        break;
+      case 'B':
+        // Silent in a final -MB
+        if (!(previous === 'M' && isLast(n))) code += 'B';
+        break;
+      case 'C':
+        // -SCI-, -SCE-, -SCY- are silent
+        if (previous === 'S' && !isLast(n) && isFrontVowel(n + 1)) break;
+        if (regionMatches(n, 'CIA')) {
+          code += 'X';
+        } else if (!isLast(n) && isFrontVowel(n + 1)) {
+          code += 'S';
+        } else if (previous === 'S' && next === 'H') {
+          code += 'K';
+        } else if (next === 'H') {
+          code += n === 0 && size >= 3 && isVowel(at(2)) ? 'K' : 'X';
+        } else {
+          code += 'K';
+        }
+        break;
+      case 'D':
+        if (!isLast(n + 1) && next === 'G' && isFrontVowel(n + 2)) {
+          code += 'J';
+          n += 2;
+        } else {
+          code += 'T';
+        }
+        break;
+      case 'G':
+        // Silent in -GH- unless before a vowel, and in -GN- / -GNED
+        if (isLast(n + 1) && next === 'H') break;
+        if (!isLast(n + 1) && next === 'H' && !isVowel(at(n + 2))) break;
+        if (n > 0 && (regionMatches(n, 'GN') || regionMatches(n, 'GNED'))) break;
+        code += !isLast(n) && isFrontVowel(n + 1) && previous !== 'G' ? 'J' : 'K';
+        break;
+      case 'H':
+        if (isLast(n)) break;
+        if (previous !== undefined && 'CSPTG'.includes(previous)) break;
+        if (isVowel(next)) code += 'H';
+        break;
+      case 'K':
+        if (previous !== 'C') code += 'K';
+        break;
+      case 'P':
+        code += next === 'H' ? 'F' : 'P';
+        break;
+      case 'Q':
+        code += 'K';
+        break;
+      case 'S':
+        if (regionMatches(n, 'SH') || regionMatches(n, 'SIO') || regionMatches(n, 'SIA')) {
+          code += 'X';
+        } else {
+          code += 'S';
+        }
+        break;
+      case 'T':
+        if (regionMatches(n, 'TIA') || regionMatches(n, 'TIO')) {
+          code += 'X';
+        } else if (regionMatches(n, 'TCH')) {
+          // Silent before -CH-
+        } else {
+          code += regionMatches(n, 'TH') ? '0' : 'T';
+        }
+        break;
+      case 'V':
+        code += 'F';
+        break;
+      case 'W':
+      case 'Y':
+        if (!isLast(n) && isVowel(next)) code += symbol;
+        break;
+      case 'X':
+        code += 'KS';
+        break;
+      case 'Z':
+        code += 'S';
+        break;
+      default:
+        // F, J, L, M, N, R
+        code += symbol;
+    }
+  }
+
+  return code.slice(0, maxLength);
+}
+
+/**
+ * Encodes a word with NYSIIS (New York State Identification and
+ * Intelligence System), following the original rules.
+ *
+ * @param word - Word to encode
+ * @param maxLength - Maximum code length (default: 6, as in the original)
+ * @returns NYSIIS code, or '' if the word has no letters
+ */
+export function nysiis(word: string, maxLength = 6): string {
+  let name = lettersOnly(word);
+  if (name.length === 0) return '';
+
+  // Prefix and suffix translations
+  name = name
+    .replace(/^MAC/, 'MCC')
+    .replace(/^KN/, 'NN')
+    .replace(/^K/, 'C')
+    .replace(/^(PH|PF)/, 'FF')
+    .replace(/^SCH/, 'SSS')
+    .replace(/(EE|IE)$/, 'Y')
+    .replace(/(DT|RT|RD|NT|ND)$/, 'D');
+
+  const chars = name.split('');
+  let key = chars[0] ?? '';
+
+  for (let i = 1; i < chars.length; i++) {
+    const previous = chars[i - 1] ?? '';
+    const current = chars[i] ?? '';
+    const next = chars[i + 1];
+    const afterNext = chars[i + 2];
+    let replacement: string;
+
+    if (current === 'E' && next === 'V') {
+      replacement = 'AF';
+    } else if (isVowel(current)) {
+      replacement = 'A';
+    } else if (current === 'Q') {
+      replacement = 'G';
+    } else if (current === 'Z') {
+      replacement = 'S';
+    } else if (current === 'M') {
+      replacement = 'N';
+    } else if (current === 'K') {
+      replacement = next === 'N' ? 'N' : 'C';
+    } else if (current === 'S' && next === 'C' && afterNext === 'H') {
+      replacement = 'SSS';
+    } else if (current === 'P' && next === 'H') {
+      replacement = 'FF';
+    } else if (current === 'H' && (!isVowel(previous) || !isVowel(next))) {
+      replacement = previous;
+    } else if (current === 'W' && isVowel(previous)) {
+      replacement = previous;
+    } else {
+      replacement = current;
+    }
+
+    // The replacement overwrites the following letters as well
+    for (let k = 0; k < replacement.length && i + k < chars.length; k++) {
+      chars[i + k] = replacement[k] ?? '';
+    }
+    if (chars[i] !== previous) key += chars[i] ?? '';
+  }
+
+  if (key.length > 1) {
+    if (key.endsWith('S')) key = key.slice(0, -1);
+    if (key.length > 2 && key.endsWith('AY')) key = key.slice(0, -2) + 'Y';
+    if (key.endsWith('A')) key = key.slice(0, -1);
+  }
+
+  return key.slice(0, maxLength);
+}
+
+/**
+ * Encodes every token of a string, keeping the token order.
+ * For Double Metaphone, returns the primary codes and, second, the alternates.
+ */
+function encodeTokens(str: string, algorithm: PhoneticAlgorithm): string[] {
+  const tokens = tokenize(str);
+
+  if (algorithm === 'doubleMetaphone') {
+    const codes = tokens.map((token) => doubleMetaphone(token)).filter(([primary]) => primary);
+    const primary = codes.map(([code]) => code).join(' ');
+    const alternate = codes.map(([, code]) => code).join(' ');
+    return primary === alternate ? [primary] : [primary, alternate];
+  }
+
+  const encoder = {
+    soundex,
+    refinedSoundex,
+    metaphone: (token: string): string => metaphone(token),
+    nysiis: (token: string): string => nysiis(token),
+  }[algorithm];
+
+  return [
+    tokens
+      .map(encoder)
+      .filter((code) => code.length > 0)
+      .join(' '),
+  ];
+}
+
+/**
+ * Encodes each whitespace-separated word of a string and joins the codes
+ * with spaces. Double Metaphone yields the primary codes.
+ *
+ * @param str - String to encode
+ * @param algorithm - Phonetic encoder
+ * @returns Space-separated phonetic codes
+ */
+export function phoneticEncode(str: string, algorithm: PhoneticAlgorithm): string {
+  return encodeTokens(str, algorithm)[0] ?? '';
+}
+
+/**
+ * Calculates similarity ratio between the phonetic encodings of two strings.
+ * Each word is encoded separately and the code sequences are compared with
+ * the Levenshtein ratio; for Double Metaphone the best of the primary and
+ * alternate encodings is used.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Phonetic encoder
+ * @returns Similarity ratio (0-100)
+ */
+export function phoneticRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: PhoneticOptions = {}
+): number {
+  if (s1 === s2) return 100;
+
+  const { algorithm = 'doubleMetaphone' } = options;
+  const codes1 = encodeTokens(s1, algorithm);
+  const codes2 = encodeTokens(s2, algorithm);
+  // Strings without encodable letters only match themselves
+  if (codes1[0] === '' || codes2[0] === '') return 0;
+
+  let best = 0;
+  for (const code1 of codes1) {
+    for (const code2 of codes2) {
+      best = Math.max(best, levenshteinRatio(code1, code2, Math.max(scoreCutoff, best)));
+    }
+  }
+
+  return best >= scoreCutoff ? best : 0;
+}
@@ -0,0 +1,150 @@
+/**
+ * Character n-gram (q-gram) similarity measures.
+ * Pure functions with no external dependencies.
+ *
+ * Strings are compared as multisets of overlapping substrings of length n,
+ * which makes these measures fast on long text and insensitive to the order
+ * of larger blocks. All similarities are between 0 and 1.
+ */
+
+export interface QGramOptions {
+  /** Length of each gram (default: 2) */
+  n?: number;
+  /**
+   * Pads both ends with n - 1 sentinel characters so that the first and last
+   * characters appear in as many grams as the others (default: false)
+   */
+  padding?: boolean;
+}
+
+/** Sentinel used for padding; never expected in input text */
+const PAD_CHAR = '\u0000';
+
+/**
+ * Splits a string into overlapping grams of length n and counts them.
+ * Strings shorter than n (after padding) yield no grams.
+ *
+ * @param s - Input string
+ * @param options - Gram length and padding
+ * @returns Map from gram to number of occurrences
+ */
+export function qgrams(s: string, options: QGramOptions = {}): Map<string, number> {
+  const { n = 2, padding = false } = options;
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error('n must be a positive integer');
+  }
+
+  const pad = padding ? PAD_CHAR.repeat(n - 1) : '';
+  const text = pad + s + pad;
+  const profile = new Map<string, number>();
+
+  for (let i = 0; i + n <= text.length; i++) {
+    const gram = text.slice(i, i + n);
+    profile.set(gram, (profile.get(gram) ?? 0) + 1);
+  }
+
+  return profile;
+}
+
+interface ProfileStats {
+  /** Sum of min(count1, count2) over all grams */
+  intersection: number;
+  size1: number;
+  size2: number;
+}
+
+function compareProfiles(
+  profile1: Map<string, number>,
+  profile2: Map<string, number>
+): ProfileStats {
+  let intersection = 0;
+  let size1 = 0;
+  let size2 = 0;
+
+  for (const [gram, count] of profile1) {
+    size1 += count;
+    intersection += Math.min(count, profile2.get(gram) ?? 0);
+  }
+  for (const count of profile2.values()) {
+    size2 += count;
+  }
+
+  return { intersection, size1, size2 };
+}
+
+/**
+ * Calculates the Jaccard index of the q-gram multisets:
+ * |A ∩ B| / |A ∪ B|.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param options - Gram length and padding
+ * @returns Jaccard similarity (0-1)
+ */
+export function qgramJaccard(s1: string, s2: string, options: QGramOptions = {}): number {
+  if (s1 === s2) return 1;
+  const { intersection, size1, size2 } = compareProfiles(qgrams(s1, options), qgrams(s2, options));
+  const union = size1 + size2 - intersection;
+  return union === 0 ? 0 : intersection / union;
+}
+
+/**
+ * Calculates the Sørensen-Dice coefficient of the q-gram multisets:
+ * 2|A ∩ B| / (|A| + |B|).
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param options - Gram length and padding
+ * @returns Sørensen-Dice similarity (0-1)
+ */
+export function qgramDice(s1: string, s2: string, options: QGramOptions = {}): number {
+  if (s1 === s2) return 1;
+  const { intersection, size1, size2 } = compareProfiles(qgrams(s1, options), qgrams(s2, options));
+  const total = size1 + size2;
+  return total === 0 ? 0 : (2 * intersection) / total;
+}
+
+/**
+ * Calculates the overlap (Szymkiewicz-Simpson) coefficient of the q-gram
+ * multisets: |A ∩ B| / min(|A|, |B|). A string contained in the other scores 1.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param options - Gram length and padding
+ * @returns Overlap similarity (0-1)
+ */
+export function qgramOverlap(s1: string, s2: string, options: QGramOptions = {}): number {
+  if (s1 === s2) return 1;
+  const { intersection, size1, size2 } = compareProfiles(qgrams(s1, options), qgrams(s2, options));
+  const smaller = Math.min(size1, size2);
+  return smaller === 0 ? 0 : intersection / smaller;
+}
+
+/**
+ * Calculates the cosine similarity of the q-gram count vectors.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param options - Gram length and padding
+ * @returns Cosine similarity (0-1)
+ */
+export function qgramCosine(s1: string, s2: string, options: QGramOptions = {}): number {
+  if (s1 === s2) return 1;
+  const profile1 = qgrams(s1, options);
+  const profile2 = qgrams(s2, options);
+
+  let dot = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+  for (const [gram, count] of profile1) {
+    norm1 += count * count;
+    dot += count * (profile2.get(gram) ?? 0);
+  }
+  for (const count of profile2.values()) {
+    norm2 += count * count;
+  }
+
+  if (norm1 === 0 || norm2 === 0) return 0;
+  // Clamp rounding noise so identical profiles score exactly 1
+  return Math.min(1, dot / Math.sqrt(norm1 * norm2));
+}
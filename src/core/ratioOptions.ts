@@ -0,0 +1,52 @@
+/**
+ * Options shared by the composite ratio algorithms.
+ */
+
+import { levenshteinRatio } from './levenshtein';
+import { indelRatio } from './indel';
+import { tokenize, type Tokenizer, type TokenProcessor } from './tokenizer';
+import { withUnicodeMode, type UnicodeMode } from './unicode';
+
+/**
+ * Base similarity used by `partialRatio`, the token ratios and `weightedRatio`.
+ * - 'levenshtein': Levenshtein ratio (default)
+ * - 'indel': Indel (LCS-based) ratio, matching RapidFuzz and fuzzywuzzy scores
+ */
+export type RatioMode = 'levenshtein' | 'indel';
+
+export interface RatioOptions {
+  mode?: RatioMode;
+  /**
+   * Unit of comparison (default: 'codeUnit'). The token ratios tokenize the
+   * original strings and only compare the resulting token strings by this unit.
+   */
+  unicode?: UnicodeMode;
+  /** Tokenizer for the token ratios (default: `tokenize`) */
+  tokenizer?: Tokenizer;
+  /** Applied to the tokens of the token ratios before sorting and set operations */
+  tokenProcessor?: TokenProcessor;
+  /**
+   * Minimum similarity (0-100, by the base ratio) for two different tokens to
+   * count as shared in `tokenSetRatio` (default: only identical tokens)
+   */
+  tokenMatchThreshold?: number;
+}
+
+/**
+ * Resolves the base ratio function for the given mode, comparing by the given unit.
+ */
+export function getBaseRatio(
+  mode: RatioMode = 'levenshtein',
+  unicode: UnicodeMode = 'codeUnit'
+): (s1: string, s2: string, scoreCutoff?: number) => number {
+  return withUnicodeMode(mode === 'indel' ? indelRatio : levenshteinRatio, unicode);
+}
+
+/**
+ * Resolves the tokenizer of the token ratios, with the token processor applied.
+ */
+export function getTokenizer(options: RatioOptions): Tokenizer {
+  const split = options.tokenizer ?? tokenize;
+  const { tokenProcessor } = options;
+  return tokenProcessor ? (str): string[] => tokenProcessor(split(str)) : split;
+}
@@ -0,0 +1,35 @@
+/**
+ * Access to `Intl.Segmenter`, which is not part of the ES2020 lib typings.
+ * Pure functions with no external dependencies.
+ */
+
+interface SegmentData {
+  segment: string;
+  index: number;
+  /** Set for word granularity: false for spaces and punctuation */
+  isWordLike?: boolean;
+}
+
+export interface Segmenter {
+  segment(input: string): Iterable<SegmentData>;
+}
+
+type SegmenterConstructor = new (
+  locales?: string | string[],
+  options?: { granularity: 'grapheme' | 'word' | 'sentence' }
+) => Segmenter;
+
+/**
+ * Creates an `Intl.Segmenter` for the given granularity.
+ *
+ * @param granularity - Segment boundaries to find
+ * @param locales - Locale or locales for the segmentation rules
+ * @returns The segmenter, or null where `Intl.Segmenter` is unavailable
+ */
+export function createSegmenter(
+  granularity: 'grapheme' | 'word',
+  locales?: string | string[]
+): Segmenter | null {
+  const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+  return Segmenter ? new Segmenter(locales, { granularity }) : null;
+}
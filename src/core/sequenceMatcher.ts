@@ -0,0 +1,247 @@
+/**
+ * Longest common substring and Ratcliff/Obershelp ("gestalt pattern
+ * matching") similarity. Pure functions with no external dependencies.
+ *
+ * The Ratcliff/Obershelp implementation follows Python's
+ * `difflib.SequenceMatcher` step by step, so `ratcliffObershelpRatio(a, b)`
+ * equals `SequenceMatcher(None, a, b).ratio() * 100`.
+ */
+
+export interface MatchingBlock {
+  /** Start of the block in the first string */
+  sourceStart: number;
+  /** Start of the block in the second string */
+  destStart: number;
+  length: number;
+}
+
+export interface RatcliffObershelpOptions {
+  /**
+   * Ignores characters making up more than 1% of a second string of at least
+   * 200 characters when seeding matches, like difflib's `autojunk` (default: true)
+   */
+  autojunk?: boolean;
+}
+
+/**
+ * Finds the longest substring shared by both strings. On ties, the block
+ * starting first in s1 (then in s2) is returned.
+ *
+ * Uses a rolling DP row: O(m*n) time and O(n) space.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @returns Position and length of the longest common substring (length 0 if none)
+ */
+export function longestCommonSubstring(s1: string, s2: string): MatchingBlock {
+  const best: MatchingBlock = { sourceStart: 0, destStart: 0, length: 0 };
+  const len2 = s2.length;
+  let prevRow = new Uint32Array(len2 + 1);
+  let currRow = new Uint32Array(len2 + 1);
+
+  for (let i = 1; i <= s1.length; i++) {
+    const c1 = s1.charCodeAt(i - 1);
+
+    for (let j = 1; j <= len2; j++) {
+      const length = c1 === s2.charCodeAt(j - 1) ? (prevRow[j - 1] ?? 0) + 1 : 0;
+      currRow[j] = length;
+      if (length > best.length) {
+        best.sourceStart = i - length;
+        best.destStart = j - length;
+        best.length = length;
+      }
+    }
+
+    // Rotate rows (zero-copy)
+    const temp = prevRow;
+    prevRow = currRow;
+    currRow = temp;
+  }
+
+  return best;
+}
+
+/**
+ * Calculates similarity ratio from the longest common substring, relative to
+ * the longer string.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @returns Similarity ratio (0-100)
+ */
+export function longestCommonSubstringRatio(s1: string, s2: string, scoreCutoff = 0): number {
+  if (s1 === s2) return 100;
+
+  const maxLen = Math.max(s1.length, s2.length);
+  // The common substring is at most the shorter length
+  if ((Math.min(s1.length, s2.length) / maxLen) * 100 < scoreCutoff) return 0;
+
+  const ratio = (longestCommonSubstring(s1, s2).length / maxLen) * 100;
+  return ratio >= scoreCutoff ? ratio : 0;
+}
+
+/**
+ * Indexes the positions of each character of s2, dropping "popular"
+ * characters when autojunk applies.
+ */
+function buildPositionIndex(s2: string, autojunk: boolean): Map<string, number[]> {
+  const positions = new Map<string, number[]>();
+  for (let j = 0; j < s2.length; j++) {
+    const char = s2[j] ?? '';
+    const list = positions.get(char);
+    if (list === undefined) {
+      positions.set(char, [j]);
+    } else {
+      list.push(j);
+    }
+  }
+
+  if (autojunk && s2.length >= 200) {
+    const threshold = Math.floor(s2.length / 100) + 1;
+    for (const [char, list] of positions) {
+      if (list.length > threshold) positions.delete(char);
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Longest matching block within s1[start1, end1) and s2[start2, end2), as in
+ * difflib's `find_longest_match` without a junk predicate.
+ */
+function findLongestMatch(
+  s1: string,
+  s2: string,
+  positions: Map<string, number[]>,
+  start1: number,
+  end1: number,
+  start2: number,
+  end2: number
+): MatchingBlock {
+  let bestI = start1;
+  let bestJ = start2;
+  let bestSize = 0;
+  // Length of the match ending at s1[i - 1] / s2[j], keyed by j
+  let runLengths = new Map<number, number>();
+
+  for (let i = start1; i < end1; i++) {
+    const nextRunLengths = new Map<number, number>();
+    for (const j of positions.get(s1[i] ?? '') ?? []) {
+      if (j < start2) continue;
+      if (j >= end2) break;
+      const k = (runLengths.get(j - 1) ?? 0) + 1;
+      nextRunLengths.set(j, k);
+      if (k > bestSize) {
+        bestI = i - k + 1;
+        bestJ = j - k + 1;
+        bestSize = k;
+      }
+    }
+    runLengths = nextRunLengths;
+  }
+
+  // Popular characters never seed a match but may still extend one
+  while (bestI > start1 && bestJ > start2 && s1[bestI - 1] === s2[bestJ - 1]) {
+    bestI--;
+    bestJ--;
+    bestSize++;
+  }
+  while (
+    bestI + bestSize < end1 &&
+    bestJ + bestSize < end2 &&
+    s1[bestI + bestSize] === s2[bestJ + bestSize]
+  ) {
+    bestSize++;
+  }
+
+  return { sourceStart: bestI, destStart: bestJ, length: bestSize };
+}
+
+/**
+ * Finds the matching blocks of the Ratcliff/Obershelp algorithm: the longest
+ * common substring, then recursively the longest ones to its left and right.
+ * Adjacent blocks are merged, as in difflib's `get_matching_blocks`.
+ *
+ * The result depends on argument order: with autojunk, popular characters are
+ * determined from s2.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param options - Autojunk heuristic
+ * @returns Matching blocks ordered by position (without difflib's sentinel)
+ */
+export function matchingBlocks(
+  s1: string,
+  s2: string,
+  options: RatcliffObershelpOptions = {}
+): MatchingBlock[] {
+  const { autojunk = true } = options;
+  const positions = buildPositionIndex(s2, autojunk);
+  const blocks: MatchingBlock[] = [];
+  const queue: Array<[number, number, number, number]> = [[0, s1.length, 0, s2.length]];
+
+  let range = queue.pop();
+  while (range !== undefined) {
+    const [start1, end1, start2, end2] = range;
+    const block = findLongestMatch(s1, s2, positions, start1, end1, start2, end2);
+
+    if (block.length > 0) {
+      blocks.push(block);
+      const { sourceStart: i, destStart: j, length: k } = block;
+      if (start1 < i && start2 < j) queue.push([start1, i, start2, j]);
+      if (i + k < end1 && j + k < end2) queue.push([i + k, end1, j + k, end2]);
+    }
+    range = queue.pop();
+  }
+
+  blocks.sort((a, b) => a.sourceStart - b.sourceStart || a.destStart - b.destStart);
+
+  const merged: MatchingBlock[] = [];
+  for (const block of blocks) {
+    const last = merged[merged.length - 1];
+    if (
+      last !== undefined &&
+      last.sourceStart + last.length === block.sourceStart &&
+      last.destStart + last.length === block.destStart
+    ) {
+      last.length += block.length;
+    } else {
+      merged.push({ ...block });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Calculates the Ratcliff/Obershelp similarity, 2 * matches / (len1 + len2),
+ * matching Python's `difflib.SequenceMatcher.ratio()`.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Autojunk heuristic
+ * @returns Similarity ratio (0-100)
+ */
+export function ratcliffObershelpRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: RatcliffObershelpOptions = {}
+): number {
+  const lenSum = s1.length + s2.length;
+  if (lenSum === 0) return 100;
+
+  // Matches cover at most the shorter string
+  if ((200 * Math.min(s1.length, s2.length)) / lenSum < scoreCutoff) return 0;
+
+  let matches = 0;
+  for (const block of matchingBlocks(s1, s2, options)) {
+    matches += block.length;
+  }
+
+  const ratio = ((2 * matches) / lenSum) * 100;
+  return ratio >= scoreCutoff ? ratio : 0;
+}
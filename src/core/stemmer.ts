@@ -0,0 +1,228 @@
+/**
+ * Porter stemmer for English (Martin Porter, 1980), as in his reference
+ * implementation.
+ * Pure functions with no external dependencies.
+ *
+ * Stemming maps inflected forms to a common stem ("running", "runs" -> "run"),
+ * so token scorers treat them as the same word.
+ */
+
+function isConsonant(word: string, i: number): boolean {
+  const char = word[i];
+  if (char === 'a' || char === 'e' || char === 'i' || char === 'o' || char === 'u') return false;
+  // Y is a vowel after a consonant
+  if (char === 'y') return i === 0 || !isConsonant(word, i - 1);
+  return true;
+}
+
+/**
+ * Number of vowel-consonant sequences, m in [C](VC)^m[V].
+ */
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  const len = stem.length;
+  while (i < len && isConsonant(stem, i)) i++;
+  while (i < len) {
+    while (i < len && !isConsonant(stem, i)) i++;
+    if (i >= len) break;
+    while (i < len && isConsonant(stem, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const len = word.length;
+  return len >= 2 && word[len - 1] === word[len - 2] && isConsonant(word, len - 1);
+}
+
+/**
+ * Consonant-vowel-consonant ending where the last consonant is not w, x or y,
+ * as in "hop" or "fil", which keeps or restores a final e.
+ */
+function endsWithCvc(word: string): boolean {
+  const len = word.length;
+  if (len < 3) return false;
+  const last = word[len - 1] ?? '';
+  return (
+    isConsonant(word, len - 1) &&
+    !isConsonant(word, len - 2) &&
+    isConsonant(word, len - 3) &&
+    !'wxy'.includes(last)
+  );
+}
+
+/**
+ * Replaces the first listed suffix the word ends with, if the remaining stem
+ * satisfies the condition. Later suffixes are not tried once one matches.
+ */
+function replaceSuffix(
+  word: string,
+  rules: ReadonlyArray<readonly [string, string]>,
+  condition: (stem: string) => boolean
+): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, word.length - suffix.length);
+      return condition(stem) ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+const STEP2_RULES: ReadonlyArray<readonly [string, string]> = [
+  ['ational', 'ate'],
+  ['tional', 'tion'],
+  ['enci', 'ence'],
+  ['anci', 'ance'],
+  ['izer', 'ize'],
+  ['bli', 'ble'],
+  ['alli', 'al'],
+  ['entli', 'ent'],
+  ['eli', 'e'],
+  ['ousli', 'ous'],
+  ['ization', 'ize'],
+  ['ation', 'ate'],
+  ['ator', 'ate'],
+  ['alism', 'al'],
+  ['iveness', 'ive'],
+  ['fulness', 'ful'],
+  ['ousness', 'ous'],
+  ['aliti', 'al'],
+  ['iviti', 'ive'],
+  ['biliti', 'ble'],
+  ['logi', 'log'],
+];
+
+const STEP3_RULES: ReadonlyArray<readonly [string, string]> = [
+  ['icate', 'ic'],
+  ['ative', ''],
+  ['alize', 'al'],
+  ['iciti', 'ic'],
+  ['ical', 'ic'],
+  ['ful', ''],
+  ['ness', ''],
+];
+
+/** The longest matching suffix is tried, so "ement" wins over "ment" and "ent" */
+const STEP4_SUFFIXES = [
+  'al',
+  'ance',
+  'ence',
+  'er',
+  'ic',
+  'able',
+  'ible',
+  'ant',
+  'ement',
+  'ment',
+  'ent',
+  'ion',
+  'ou',
+  'ism',
+  'ate',
+  'iti',
+  'ous',
+  'ive',
+  'ize',
+];
+
+function step1(word: string): string {
+  // Step 1a: plurals
+  if (word.endsWith('sses')) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('ies')) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('s') && !word.endsWith('ss')) {
+    word = word.slice(0, -1);
+  }
+
+  // Step 1b: past tense and gerunds
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else {
+    const suffix = word.endsWith('ed') ? 'ed' : word.endsWith('ing') ? 'ing' : '';
+    const stem = word.slice(0, word.length - suffix.length);
+    if (suffix && hasVowel(stem)) {
+      word = stem;
+      if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+        word += 'e';
+      } else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1] ?? '')) {
+        word = word.slice(0, -1);
+      } else if (measure(word) === 1 && endsWithCvc(word)) {
+        word += 'e';
+      }
+    }
+  }
+
+  // Step 1c: terminal y
+  if (word.endsWith('y') && hasVowel(word.slice(0, -1))) {
+    word = word.slice(0, -1) + 'i';
+  }
+  return word;
+}
+
+function step4(word: string): string {
+  let match = '';
+  for (const suffix of STEP4_SUFFIXES) {
+    if (word.endsWith(suffix) && suffix.length > match.length) match = suffix;
+  }
+  if (!match) return word;
+
+  const stem = word.slice(0, word.length - match.length);
+  if (measure(stem) <= 1) return word;
+  // -ion is only removed after s or t
+  if (match === 'ion' && !stem.endsWith('s') && !stem.endsWith('t')) return word;
+  return stem;
+}
+
+function step5(word: string): string {
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) word = stem;
+  }
+  if (word.endsWith('ll') && measure(word) > 1) word = word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Reduces an English word to its Porter stem. Possessive endings ('s) are
+ * removed first; words that are not plain ASCII letters are returned as is.
+ *
+ * @example
+ * porterStem('running'); // 'run'
+ * porterStem("men's"); // 'men'
+ *
+ * @param word - Word to stem
+ * @returns Lowercase stem
+ */
+export function porterStem(word: string): string {
+  const lower = word.toLowerCase().replace(/['’]s?$/, '');
+  if (!/^[a-z]+$/.test(lower)) return word;
+  if (lower.length <= 2) return lower;
+
+  let stem = step1(lower);
+  stem = replaceSuffix(stem, STEP2_RULES, (s) => measure(s) > 0);
+  stem = replaceSuffix(stem, STEP3_RULES, (s) => measure(s) > 0);
+  stem = step4(stem);
+  return step5(stem);
+}
+
+/**
+ * Stems every token with `porterStem`. Usable as a token processor.
+ *
+ * @param tokens - Tokens to stem
+ * @returns Stemmed tokens, in their original order
+ */
+export function stemTokens(tokens: string[]): string[] {
+  return tokens.map(porterStem);
+}
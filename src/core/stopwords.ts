@@ -0,0 +1,84 @@
+/**
+ * Bundled stopword lists for token-level filtering.
+ * Pure functions with no external dependencies.
+ */
+
+export type StopwordLanguage = 'en' | 'es' | 'fr' | 'de';
+
+const STOPWORD_LISTS: Record<StopwordLanguage, string> = {
+  en:
+    'i me my myself we our ours ourselves you your yours yourself yourselves he him his ' +
+    'himself she her hers herself it its itself they them their theirs themselves what which ' +
+    'who whom whose this that these those am is are was were be been being have has had having ' +
+    'do does did doing would should could ought a an the and but if or because as until while ' +
+    'of at by for with about against between into through during before after above below to ' +
+    'from up down in out on off over under again further then once here there when where why ' +
+    'how all any both each few more most other some such no nor not only own same so than too ' +
+    'very can will just now',
+  es:
+    'de la que el en y a los del se las por un para con no una su al lo como más pero sus le ' +
+    'ya o este sí porque esta entre cuando muy sin sobre también me hasta hay donde quien desde ' +
+    'todo nos durante todos uno les ni contra otros ese eso ante ellos e esto mí antes algunos ' +
+    'qué unos yo otro otras otra él tanto esa estos mucho quienes nada muchos cual poco ella ' +
+    'estar estas algunas algo nosotros mi mis tú te ti tu tus ellas nosotras vosotros vosotras ' +
+    'os mío mía míos mías tuyo tuya tuyos tuyas suyo suya suyos suyas nuestro nuestra nuestros ' +
+    'nuestras vuestro vuestra vuestros vuestras esos esas estoy estás está estamos estáis están ' +
+    'es son soy eres somos sois fue fueron era eran ser he has ha hemos habéis han',
+  fr:
+    'au aux avec ce ces cet cette ceci cela dans de des du elle elles en et eux il ils je la le ' +
+    'les leur leurs lui ma mais me même mes moi mon ne nos notre nous on ou où par pas pour qu ' +
+    'que qui sa se ses son sur ta te tes toi ton tu un une vos votre vous c d j l à m n s t y ' +
+    'suis es est sommes êtes sont été être ai as a avons avez ont avait était étaient fait ' +
+    'comme si plus',
+  de:
+    'aber alle allem allen aller alles als also am an ander andere anderem anderen anderer ' +
+    'anderes auch auf aus bei bin bis bist da damit dann das dass daß dein deine deinem deinen ' +
+    'deiner dem den denn der derer des dessen dich die dies diese diesem diesen dieser dieses ' +
+    'dir doch dort du durch ein eine einem einen einer eines einige einigem einigen einiger ' +
+    'einiges er es etwas euch euer eure eurem euren eurer eures für gegen gewesen habe haben hat ' +
+    'hatte hatten hier hin hinter ich ihm ihn ihnen ihr ihre ihrem ihren ihrer ihres im in ' +
+    'indem ins ist jede jedem jeden jeder jedes jene jenem jenen jener jenes jetzt kann kein ' +
+    'keine keinem keinen keiner keines man mein meine meinem meinen meiner meines mich mir mit ' +
+    'muss nach nicht nichts noch nun nur ob oder ohne sehr sein seine seinem seinen seiner ' +
+    'seines sich sie sind so solche soll sondern sonst über um und uns unser unsere unserem ' +
+    'unseren unserer unseres unter vom von vor war waren was weil welche welchem welchen ' +
+    'welcher welches wenn werde werden wie wieder wir wird wo zu zum zur zwischen',
+};
+
+const stopwordSets = new Map<StopwordLanguage, ReadonlySet<string>>();
+
+/**
+ * Returns the bundled stopwords of a language, in lowercase.
+ *
+ * @param language - Language code
+ * @returns Set of stopwords
+ */
+export function getStopwords(language: StopwordLanguage): ReadonlySet<string> {
+  let stopwords = stopwordSets.get(language);
+  if (stopwords === undefined) {
+    stopwords = new Set(STOPWORD_LISTS[language].split(' '));
+    stopwordSets.set(language, stopwords);
+  }
+  return stopwords;
+}
+
+/**
+ * Removes stopwords from a token list (case-insensitively). A list made up
+ * only of stopwords is returned unchanged, so queries such as "the who" still
+ * have tokens to compare.
+ *
+ * @param tokens - Tokens to filter
+ * @param languages - Language or languages whose stopwords to remove (default: 'en')
+ * @returns Tokens without stopwords, in their original order
+ */
+export function removeStopwords(
+  tokens: string[],
+  languages: StopwordLanguage | StopwordLanguage[] = 'en'
+): string[] {
+  const sets = (Array.isArray(languages) ? languages : [languages]).map(getStopwords);
+  const kept = tokens.filter((token) => {
+    const lower = token.toLowerCase();
+    return !sets.some((stopwords) => stopwords.has(lower));
+  });
+  return kept.length > 0 ? kept : tokens;
+}
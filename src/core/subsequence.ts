@@ -0,0 +1,225 @@
+/**
+ * Subsequence matching for command palettes and file pickers, in the style of
+ * fzf and VS Code quick open.
+ * Pure functions with no external dependencies.
+ *
+ * Every pattern character must appear in the text, in order but not
+ * necessarily adjacent ("usrctl" matches "UserController.ts"). Among all
+ * such alignments the best-scoring one is found; matches at the start of
+ * words, at camelCase humps, right after each other and at the start of the
+ * text score higher, and gaps between matches cost points.
+ */
+
+export interface SubsequenceOptions {
+  /** Distinguishes upper and lower case (default: false) */
+  caseSensitive?: boolean;
+}
+
+/**
+ * Score of a subsequence match together with the matched positions.
+ */
+export interface SubsequenceMatch {
+  /** Match quality (0-100) */
+  score: number;
+  /** Indices of the text characters matched by each pattern character, ascending */
+  positions: number[];
+}
+
+// Scoring constants, as in fzf
+const SCORE_MATCH = 16;
+const SCORE_GAP_START = -3;
+const SCORE_GAP_EXTENSION = -1;
+/** Start of the text or after whitespace */
+const BONUS_BOUNDARY_WHITE = 10;
+/** After a path or list delimiter such as '/' or ',' */
+const BONUS_BOUNDARY_DELIMITER = 9;
+/** After other punctuation such as '-', '_' or '.' */
+const BONUS_BOUNDARY = 8;
+/** A lowercase-to-uppercase hump or the first digit after a letter */
+const BONUS_CAMEL = BONUS_BOUNDARY + SCORE_GAP_EXTENSION;
+/** Minimum bonus of a character matched right after the previous one */
+const BONUS_CONSECUTIVE = -(SCORE_GAP_START + SCORE_GAP_EXTENSION);
+/** The bonus of the first pattern character counts this many times */
+const FIRST_CHAR_MULTIPLIER = 2;
+/** Share of the score lost when the text is made up only of unmatched characters */
+const UNMATCHED_PENALTY = 0.1;
+
+type CharClass = 'white' | 'delimiter' | 'nonWord' | 'lower' | 'upper' | 'number';
+
+const DELIMITERS = '/\\,:;|';
+
+function charClass(char: string): CharClass {
+  if (/\s/.test(char)) return 'white';
+  if (DELIMITERS.includes(char)) return 'delimiter';
+  if (/\p{N}/u.test(char)) return 'number';
+  if (char !== char.toLowerCase()) return 'upper';
+  // Letters without case, such as CJK, count as lowercase
+  if (/\p{L}/u.test(char)) return 'lower';
+  return 'nonWord';
+}
+
+/**
+ * Bonus for matching a character of class `current` preceded by one of class
+ * `previous`.
+ */
+function bonusFor(previous: CharClass, current: CharClass): number {
+  const isWord = current === 'lower' || current === 'upper' || current === 'number';
+  if (isWord) {
+    if (previous === 'white') return BONUS_BOUNDARY_WHITE;
+    if (previous === 'delimiter') return BONUS_BOUNDARY_DELIMITER;
+    if (previous === 'nonWord') return BONUS_BOUNDARY;
+    if (previous === 'lower' && current === 'upper') return BONUS_CAMEL;
+    if (previous !== 'number' && current === 'number') return BONUS_CAMEL;
+    return 0;
+  }
+  if (current === 'white') return BONUS_BOUNDARY_WHITE;
+  return BONUS_BOUNDARY;
+}
+
+/**
+ * Finds the best-scoring occurrence of `pattern` as a subsequence of `text`.
+ * Case is ignored unless `caseSensitive` is set, but upper-case letters in
+ * the text still mark camelCase humps. Texts with fewer unmatched characters
+ * score slightly higher, so "user" ranks "User.ts" above "UserController.ts".
+ *
+ * @example
+ * subsequenceMatch('usrctl', 'UserController.ts');
+ * // { score: 68.7..., positions: [0, 1, 3, 4, 7, 10] }
+ *
+ * @param pattern - Characters to find, in order
+ * @param text - Text to search
+ * @param options - Case sensitivity
+ * @returns Score (0-100) and matched positions, or null if the text does not contain the pattern
+ */
+export function subsequenceMatch(
+  pattern: string,
+  text: string,
+  options: SubsequenceOptions = {}
+): SubsequenceMatch | null {
+  const m = pattern.length;
+  const n = text.length;
+  if (m === 0) return { score: n === 0 ? 100 : 0, positions: [] };
+  if (m > n) return null;
+
+  const fold = (char: string): string => (options.caseSensitive ? char : char.toLowerCase());
+  const patternChars = Array.from({ length: m }, (_, i) => fold(pattern[i] ?? ''));
+  const textChars = Array.from({ length: n }, (_, j) => fold(text[j] ?? ''));
+
+  // Bonus of each text position; the start of the text counts as after whitespace
+  const bonus = new Int32Array(n);
+  let previous: CharClass = 'white';
+  for (let j = 0; j < n; j++) {
+    const current = charClass(text[j] ?? '');
+    bonus[j] = bonusFor(previous, current);
+    previous = current;
+  }
+
+  // score[i * n + j]: best score with pattern[i] matched at text[j]
+  const score = new Float64Array(m * n).fill(-Infinity);
+  // Length of the run of consecutive matches ending at (i, j)
+  const run = new Int32Array(m * n);
+  // Text position matched by pattern[i - 1] on the best path to (i, j)
+  const from = new Int32Array(m * n).fill(-1);
+
+  for (let j = 0; j < n; j++) {
+    if (textChars[j] === patternChars[0]) {
+      score[j] = SCORE_MATCH + (bonus[j] ?? 0) * FIRST_CHAR_MULTIPLIER;
+      run[j] = 1;
+    }
+  }
+
+  for (let i = 1; i < m; i++) {
+    const row = i * n;
+    const previousRow = row - n;
+    // Best score of pattern[i - 1] at k <= j - 2, minus the gap up to j
+    let gapScore = -Infinity;
+    let gapFrom = -1;
+
+    for (let j = i; j < n; j++) {
+      if (j >= 2) {
+        const opened = (score[previousRow + j - 2] ?? -Infinity) + SCORE_GAP_START;
+        gapScore += SCORE_GAP_EXTENSION;
+        if (opened > gapScore) {
+          gapScore = opened;
+          gapFrom = j - 2;
+        }
+      }
+      if (textChars[j] !== patternChars[i]) continue;
+
+      let best = gapScore + SCORE_MATCH + (bonus[j] ?? 0);
+      let bestFrom = gapFrom;
+      let bestRun = 1;
+
+      const adjacent = score[previousRow + j - 1] ?? -Infinity;
+      if (adjacent > -Infinity) {
+        // A run keeps the bonus of its first character, unless a stronger
+        // boundary starts a new run
+        const previousRun = run[previousRow + j - 1] ?? 0;
+        const runBonus = bonus[j - previousRun] ?? 0;
+        const own = bonus[j] ?? 0;
+        const startsNewRun = own >= BONUS_BOUNDARY && own > runBonus;
+        const consecutive =
+          adjacent +
+          SCORE_MATCH +
+          (startsNewRun ? own : Math.max(own, runBonus, BONUS_CONSECUTIVE));
+        if (consecutive >= best) {
+          best = consecutive;
+          bestFrom = j - 1;
+          bestRun = startsNewRun ? 1 : previousRun + 1;
+        }
+      }
+
+      if (best > -Infinity) {
+        score[row + j] = best;
+        from[row + j] = bestFrom;
+        run[row + j] = bestRun;
+      }
+    }
+  }
+
+  const lastRow = (m - 1) * n;
+  let end = -1;
+  let raw = -Infinity;
+  for (let j = m - 1; j < n; j++) {
+    const value = score[lastRow + j] ?? -Infinity;
+    if (value > raw) {
+      raw = value;
+      end = j;
+    }
+  }
+  if (end === -1) return null;
+
+  const positions = new Array<number>(m);
+  for (let i = m - 1, j = end; i >= 0; i--) {
+    positions[i] = j;
+    j = from[i * n + j] ?? -1;
+  }
+
+  // The pattern matched against itself scores the most: every character on a
+  // boundary-strength bonus, the first one counted twice
+  const maxRaw =
+    m * (SCORE_MATCH + BONUS_BOUNDARY_WHITE) + BONUS_BOUNDARY_WHITE * (FIRST_CHAR_MULTIPLIER - 1);
+  const quality = Math.max(0, Math.min(1, raw / maxRaw));
+  const unmatched = (n - m) / n;
+  return { score: quality * (1 - UNMATCHED_PENALTY * unmatched) * 100, positions };
+}
+
+/**
+ * Subsequence match score of `pattern` in `text` (see `subsequenceMatch`).
+ * The first string is the pattern, so the score is not symmetric.
+ *
+ * @param pattern - Characters to find, in order
+ * @param text - Text to search
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Case sensitivity
+ * @returns Subsequence ratio (0-100), 0 if the text does not contain the pattern
+ */
+export function subsequenceRatio(
+  pattern: string,
+  text: string,
+  scoreCutoff = 0,
+  options: SubsequenceOptions = {}
+): number {
+  const score = subsequenceMatch(pattern, text, options)?.score ?? 0;
+  return score >= scoreCutoff ? score : 0;
+}
@@ -0,0 +1,196 @@
+/**
+ * Built-in substitution cost tables for weighted Levenshtein distance.
+ * Pure functions with no external dependencies beyond other core modules.
+ *
+ * Each table yields `EditCosts` that make likely mistakes (neighbouring keys,
+ * characters OCR engines confuse) cheaper than arbitrary substitutions.
+ */
+
+import type { EditCosts, MultiCharSubstitution } from './levenshtein';
+
+export type KeyboardLayout = 'qwerty' | 'azerty' | 'qwertz';
+
+export type SubstitutionTable = KeyboardLayout | 'ocr';
+
+export interface SubstitutionTableOptions {
+  /** Cost of a near-miss substitution (default: 0.5) */
+  nearMissCost?: number;
+  /** Cost of any other substitution (default: 1) */
+  defaultCost?: number;
+}
+
+/**
+ * Unshifted key rows, top to bottom. Each row is offset by half a key to the
+ * right of the row above, as on a standard staggered keyboard.
+ */
+const KEYBOARD_ROWS: Record<KeyboardLayout, readonly string[]> = {
+  qwerty: ['1234567890-=', 'qwertyuiop[]', "asdfghjkl;'", 'zxcvbnm,./'],
+  azerty: ['&é"\'(-è_çà)=', 'azertyuiop^$', 'qsdfghjklmù*', 'wxcvbn,;:!'],
+  qwertz: ['1234567890ß´', 'qwertzuiopü+', 'asdfghjklöä#', 'yxcvbnm,.-'],
+};
+
+/**
+ * Single characters commonly confused by OCR engines, as groups of
+ * interchangeable characters.
+ */
+const OCR_CONFUSION_GROUPS: readonly string[] = [
+  '0OoQD',
+  '1lI|i!',
+  '5Ss',
+  '8B',
+  '2Zz',
+  '6Gb',
+  '9gq',
+  'uv',
+  'ce',
+  'hb',
+  'nh',
+  '7T',
+];
+
+/**
+ * Character sequences commonly confused by OCR engines.
+ */
+const OCR_SEQUENCE_CONFUSIONS: ReadonlyArray<readonly [string, string]> = [
+  ['rn', 'm'],
+  ['cl', 'd'],
+  ['vv', 'w'],
+  ['ri', 'n'],
+  ['li', 'h'],
+  ['nn', 'm'],
+];
+
+const adjacencyCache = new Map<KeyboardLayout, Map<string, Set<string>>>();
+
+function getKeyboardAdjacency(layout: KeyboardLayout): Map<string, Set<string>> {
+  const cached = adjacencyCache.get(layout);
+  if (cached !== undefined) return cached;
+
+  const rows = KEYBOARD_ROWS[layout];
+  const adjacency = new Map<string, Set<string>>();
+
+  const link = (a: string | undefined, b: string | undefined): void => {
+    if (a === undefined || b === undefined) return;
+    let neighbours = adjacency.get(a);
+    if (neighbours === undefined) {
+      neighbours = new Set<string>();
+      adjacency.set(a, neighbours);
+    }
+    neighbours.add(b);
+  };
+
+  for (let r = 0; r < rows.length; r++) {
+    const row = rows[r] ?? '';
+    const above = rows[r - 1] ?? '';
+    const below = rows[r + 1] ?? '';
+
+    for (let c = 0; c < row.length; c++) {
+      const key = row[c];
+      // Same row, then the two keys above and below given the half-key stagger
+      link(key, row[c - 1]);
+      link(key, row[c + 1]);
+      link(key, above[c]);
+      link(key, above[c + 1]);
+      link(key, c > 0 ? below[c - 1] : undefined);
+      link(key, below[c]);
+    }
+  }
+
+  adjacencyCache.set(layout, adjacency);
+  return adjacency;
+}
+
+/**
+ * Creates a substitution cost function where neighbouring keys on the given
+ * keyboard layout are near misses. Comparison is case-insensitive.
+ *
+ * @param layout - Keyboard layout
+ * @param options - Near-miss and default substitution costs
+ * @returns Substitution cost function for `EditCosts.substitutionCost`
+ */
+export function keyboardSubstitutionCost(
+  layout: KeyboardLayout,
+  options: SubstitutionTableOptions = {}
+): (from: string, to: string) => number {
+  const { nearMissCost = 0.5, defaultCost = 1 } = options;
+  const adjacency = getKeyboardAdjacency(layout);
+
+  return (from: string, to: string): number => {
+    const a = from.toLowerCase();
+    const b = to.toLowerCase();
+    if (a === b) return 0;
+    return adjacency.get(a)?.has(b) === true ? nearMissCost : defaultCost;
+  };
+}
+
+/**
+ * Creates a substitution cost function where characters commonly confused by
+ * OCR engines (e.g. "0" and "O", "1" and "l") are near misses.
+ *
+ * @param options - Near-miss and default substitution costs
+ * @returns Substitution cost function for `EditCosts.substitutionCost`
+ */
+export function ocrSubstitutionCost(
+  options: SubstitutionTableOptions = {}
+): (from: string, to: string) => number {
+  const { nearMissCost = 0.5, defaultCost = 1 } = options;
+  const confusable = getOcrConfusablePairs();
+
+  return (from: string, to: string): number => {
+    if (from === to) return 0;
+    return confusable.has(`${from}\x00${to}`) ? nearMissCost : defaultCost;
+  };
+}
+
+let ocrConfusablePairs: Set<string> | null = null;
+
+function getOcrConfusablePairs(): Set<string> {
+  if (ocrConfusablePairs !== null) return ocrConfusablePairs;
+
+  // A character may belong to several groups, so pairs are stored explicitly
+  const pairs = new Set<string>();
+  for (const group of OCR_CONFUSION_GROUPS) {
+    for (const a of group) {
+      for (const b of group) {
+        if (a !== b) pairs.add(`${a}\x00${b}`);
+      }
+    }
+  }
+
+  ocrConfusablePairs = pairs;
+  return pairs;
+}
+
+/**
+ * Builds edit costs for a built-in substitution table. The OCR table also
+ * includes multi-character confusions such as "rn" / "m" in both directions.
+ *
+ * @param table - Keyboard layout or 'ocr'
+ * @param options - Near-miss and default substitution costs
+ * @returns Edit costs for `weightedLevenshteinDistance` / `weightedLevenshteinRatio`
+ */
+export function substitutionTableCosts(
+  table: SubstitutionTable,
+  options: SubstitutionTableOptions = {}
+): EditCosts {
+  // The default cost is also the ratio's normalization for a substitution
+  const { nearMissCost = 0.5, defaultCost = 1 } = options;
+  if (table !== 'ocr') {
+    return {
+      substitution: defaultCost,
+      substitutionCost: keyboardSubstitutionCost(table, options),
+    };
+  }
+
+  const multiCharSubstitutions: MultiCharSubstitution[] = [];
+  for (const [sequence, char] of OCR_SEQUENCE_CONFUSIONS) {
+    multiCharSubstitutions.push({ from: sequence, to: char, cost: nearMissCost });
+    multiCharSubstitutions.push({ from: char, to: sequence, cost: nearMissCost });
+  }
+
+  return {
+    substitution: defaultCost,
+    substitutionCost: ocrSubstitutionCost(options),
+    multiCharSubstitutions,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Dictionary-based normalization of synonyms and abbreviations.
+ * Pure functions with no external dependencies beyond other core modules.
+ */
+
+import type { TokenProcessor } from './tokenizer';
+
+/**
+ * Maps each canonical form to its variants, e.g.
+ * `{ street: ['st', 'str'], international: 'intl', 'new york': ['ny', 'nyc'] }`.
+ * Canonical forms and variants may span several whitespace-separated tokens.
+ */
+export type SynonymDictionary = Record<string, string | string[]>;
+
+function splitPhrase(phrase: string): string[] {
+  return phrase
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Parses a synonym dictionary from JSON.
+ *
+ * @param json - JSON object mapping canonical forms to a variant or an array of variants
+ * @returns The dictionary
+ * @throws If the JSON is malformed or not shaped like a dictionary
+ */
+export function parseSynonymDictionary(json: string): SynonymDictionary {
+  const parsed: unknown = JSON.parse(json);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Synonym dictionary must be a JSON object');
+  }
+  for (const [canonical, variants] of Object.entries(parsed)) {
+    const valid =
+      typeof variants === 'string' ||
+      (Array.isArray(variants) && variants.every((variant) => typeof variant === 'string'));
+    if (!valid) {
+      throw new Error(`Variants of "${canonical}" must be a string or an array of strings`);
+    }
+  }
+  return parsed as SynonymDictionary;
+}
+
+/**
+ * Creates a token processor replacing synonyms and abbreviations with their
+ * canonical forms. Matching is case-insensitive and prefers the longest
+ * phrase, so with `{ 'new york city': 'nyc', 'new york': 'ny' }` the tokens
+ * "nyc" and "new york city" both become "new york city".
+ *
+ * @example
+ * const normalize = createSynonymNormalizer({ street: 'st', and: '&' });
+ * normalize(['smith', '&', 'sons', 'main', 'st']); // ['smith', 'and', 'sons', 'main', 'street']
+ *
+ * @param dictionary - Dictionary object, or its JSON text
+ * @returns Token processor producing lowercase canonical tokens for matches
+ * @throws If a variant is listed under two different canonical forms
+ */
+export function createSynonymNormalizer(dictionary: SynonymDictionary | string): TokenProcessor {
+  const entries = typeof dictionary === 'string' ? parseSynonymDictionary(dictionary) : dictionary;
+  const phrases = new Map<string, string[]>();
+  let maxPhraseLength = 0;
+
+  for (const [canonical, variants] of Object.entries(entries)) {
+    const canonicalTokens = splitPhrase(canonical);
+    for (const variant of [canonical, ...(Array.isArray(variants) ? variants : [variants])]) {
+      const variantTokens = splitPhrase(variant);
+      if (variantTokens.length === 0) continue;
+      const key = variantTokens.join(' ');
+      const existing = phrases.get(key);
+      if (existing !== undefined && existing.join(' ') !== canonicalTokens.join(' ')) {
+        throw new Error(`Conflicting synonyms for "${key}"`);
+      }
+      phrases.set(key, canonicalTokens);
+      maxPhraseLength = Math.max(maxPhraseLength, variantTokens.length);
+    }
+  }
+
+  return (tokens: string[]): string[] => {
+    const result: string[] = [];
+    let i = 0;
+    while (i < tokens.length) {
+      let matched = false;
+      for (let length = Math.min(maxPhraseLength, tokens.length - i); length > 0; length--) {
+        const key = tokens
+          .slice(i, i + length)
+          .join(' ')
+          .toLowerCase();
+        const canonical = phrases.get(key);
+        if (canonical !== undefined) {
+          result.push(...canonical);
+          i += length;
+          matched = true;
+          break;
+        }
+      }
+      if (!matched) result.push(tokens[i++] ?? '');
+    }
+    return result;
+  };
+}
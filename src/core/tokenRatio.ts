@@ -0,0 +1,49 @@
+import { tokenSortRatio } from './tokenSortRatio';
+import { tokenSetRatio } from './tokenSetRatio';
+import { partialTokenSortRatio } from './partialTokenSortRatio';
+import { partialTokenSetRatio } from './partialTokenSetRatio';
+import type { RatioOptions } from './ratioOptions';
+
+/**
+ * Best of `tokenSortRatio` and `tokenSetRatio`.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Base ratio mode, unit of comparison, tokenizer and token processor
+ * @returns Token ratio (0-100)
+ */
+export function tokenRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: RatioOptions = {}
+): number {
+  const tokenSort = tokenSortRatio(s1, s2, scoreCutoff, options);
+  if (tokenSort === 100) return 100;
+  return Math.max(tokenSort, tokenSetRatio(s1, s2, Math.max(scoreCutoff, tokenSort), options));
+}
+
+/**
+ * Best of `partialTokenSortRatio` and `partialTokenSetRatio`.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Base ratio mode, unit of comparison, tokenizer and token processor
+ * @returns Partial token ratio (0-100)
+ */
+export function partialTokenRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: RatioOptions = {}
+): number {
+  // The set ratio is cheap and often a perfect match, so it goes first
+  const tokenSet = partialTokenSetRatio(s1, s2, scoreCutoff, options);
+  if (tokenSet === 100) return 100;
+  return Math.max(
+    tokenSet,
+    partialTokenSortRatio(s1, s2, Math.max(scoreCutoff, tokenSet), options)
+  );
+}
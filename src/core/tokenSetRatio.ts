@@ -1,9 +1,68 @@
-import { tokenize, tokenSet, sortTokens } from './tokenizer';
-import { levenshteinRatio } from './levenshtein';
+import { tokenSet, sortTokens } from './tokenizer';
+import { getBaseRatio, getTokenizer, type RatioOptions } from './ratioOptions';
+import { maxWeightAssignment } from './assignment';
 
-export function tokenSetRatio(s1: string, s2: string): number {
-  const tokens1 = tokenize(s1);
-  const tokens2 = tokenize(s2);
+interface TokenMatches {
+  /** Matched tokens of the first string */
+  matched1: string[];
+  /** Matched tokens of the second string */
+  matched2: string[];
+  /** Unmatched tokens of the first string */
+  rest1: string[];
+  /** Unmatched tokens of the second string */
+  rest2: string[];
+}
+
+/**
+ * Pairs up tokens of the two strings whose similarity reaches the threshold,
+ * choosing the pairing with the largest total similarity.
+ */
+function matchSimilarTokens(
+  tokens1: string[],
+  tokens2: string[],
+  threshold: number,
+  baseRatio: (s1: string, s2: string, scoreCutoff?: number) => number
+): TokenMatches {
+  // Pairs below the threshold get weight 0 and are never matched
+  const weights = tokens1.map((token1) =>
+    tokens2.map((token2) => baseRatio(token1, token2, threshold))
+  );
+  const pairs = maxWeightAssignment(weights);
+  const paired1 = new Set(pairs.map(([i]) => i));
+  const paired2 = new Set(pairs.map(([, j]) => j));
+
+  return {
+    matched1: pairs.map(([i]) => tokens1[i] ?? ''),
+    matched2: pairs.map(([, j]) => tokens2[j] ?? ''),
+    rest1: tokens1.filter((_, i) => !paired1.has(i)),
+    rest2: tokens2.filter((_, j) => !paired2.has(j)),
+  };
+}
+
+/**
+ * Compares the shared tokens of two strings against each string's full token set,
+ * so duplicated and extra words are tolerated.
+ *
+ * With `options.tokenMatchThreshold`, tokens that are not shared exactly but
+ * reach that similarity to a token of the other string count as shared as
+ * well, so typos inside tokens are tolerated. The shared tokens are then
+ * compared in each string's own spelling.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Base ratio mode, unit of comparison, tokenizer and token processor
+ * @returns Token set ratio (0-100)
+ */
+export function tokenSetRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: RatioOptions = {}
+): number {
+  const split = getTokenizer(options);
+  const tokens1 = split(s1);
+  const tokens2 = split(s2);
 
   if (tokens1.length === 0 && tokens2.length === 0) return 100;
   if (tokens1.length === 0 || tokens2.length === 0) return 0;
@@ -33,27 +92,39 @@ export function tokenSetRatio(s1: string, s2: string): number {
   }
 
   // Optimize: avoid multiple Array.from and spread operations
-  const intersectionArr = Array.from(intersection);
-  const only1Arr = Array.from(only1);
-  const only2Arr = Array.from(only2);
+  const baseRatio = getBaseRatio(options.mode, options.unicode);
+  let intersection1Arr = Array.from(intersection);
+  let intersection2Arr = intersection1Arr;
+  let only1Arr = Array.from(only1);
+  let only2Arr = Array.from(only2);
+
+  const { tokenMatchThreshold } = options;
+  if (tokenMatchThreshold !== undefined && only1Arr.length > 0 && only2Arr.length > 0) {
+    const matches = matchSimilarTokens(only1Arr, only2Arr, tokenMatchThreshold, baseRatio);
+    intersection1Arr = intersection1Arr.concat(matches.matched1);
+    intersection2Arr = intersection2Arr.concat(matches.matched2);
+    only1Arr = matches.rest1;
+    only2Arr = matches.rest2;
+  }
 
   // Early exit if intersection is empty
-  if (intersectionArr.length === 0) {
+  if (intersection1Arr.length === 0) {
     return 0;
   }
 
-  const intersectionStr = sortTokens(intersectionArr);
+  const intersection1Str = sortTokens(intersection1Arr);
+  const intersection2Str = sortTokens(intersection2Arr);
 
   // Pre-allocate combined arrays to avoid multiple allocations
-  const len1 = intersectionArr.length + only1Arr.length;
-  const len2 = intersectionArr.length + only2Arr.length;
+  const len1 = intersection1Arr.length + only1Arr.length;
+  const len2 = intersection2Arr.length + only2Arr.length;
   const combined1Arr = new Array<string>(len1);
   const combined2Arr = new Array<string>(len2);
 
   // Build combined1: intersection + only1
   let idx = 0;
-  for (let i = 0; i < intersectionArr.length; i++) {
-    const val = intersectionArr[i];
+  for (let i = 0; i < intersection1Arr.length; i++) {
+    const val = intersection1Arr[i];
     if (val !== undefined) combined1Arr[idx++] = val;
   }
   for (let i = 0; i < only1Arr.length; i++) {
@@ -63,8 +134,8 @@ export function tokenSetRatio(s1: string, s2: string): number {
 
   // Build combined2: intersection + only2
   idx = 0;
-  for (let i = 0; i < intersectionArr.length; i++) {
-    const val = intersectionArr[i];
+  for (let i = 0; i < intersection2Arr.length; i++) {
+    const val = intersection2Arr[i];
     if (val !== undefined) combined2Arr[idx++] = val;
   }
   for (let i = 0; i < only2Arr.length; i++) {
@@ -75,9 +146,14 @@ export function tokenSetRatio(s1: string, s2: string): number {
   const combined1 = sortTokens(combined1Arr);
   const combined2 = sortTokens(combined2Arr);
 
-  const ratio1 = intersectionStr.length > 0 ? levenshteinRatio(intersectionStr, combined1) : 0;
-  const ratio2 = intersectionStr.length > 0 ? levenshteinRatio(intersectionStr, combined2) : 0;
-  const ratio3 = levenshteinRatio(combined1, combined2);
+  // Each comparison only needs to beat the best score found so far. The shared
+  // tokens are spelled as in the other string, so typos between them count.
+  let best = 0;
+  if (intersection1Str.length > 0) {
+    best = baseRatio(intersection2Str, combined1, scoreCutoff);
+    best = Math.max(best, baseRatio(intersection1Str, combined2, Math.max(scoreCutoff, best)));
+  }
+  best = Math.max(best, baseRatio(combined1, combined2, Math.max(scoreCutoff, best)));
 
-  return Math.max(ratio1, ratio2, ratio3);
+  return best >= scoreCutoff ? best : 0;
 }
@@ -1,9 +1,24 @@
-import { tokenize, sortTokens } from './tokenizer';
-import { levenshteinRatio } from './levenshtein';
+import { sortTokens } from './tokenizer';
+import { getBaseRatio, getTokenizer, type RatioOptions } from './ratioOptions';
 
-export function tokenSortRatio(s1: string, s2: string): number {
-  const tokens1 = tokenize(s1);
-  const tokens2 = tokenize(s2);
+/**
+ * Compares two strings after sorting their tokens, so word order is ignored.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Base ratio mode, unit of comparison, tokenizer and token processor
+ * @returns Token sort ratio (0-100)
+ */
+export function tokenSortRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: RatioOptions = {}
+): number {
+  const split = getTokenizer(options);
+  const tokens1 = split(s1);
+  const tokens2 = split(s2);
 
   if (tokens1.length === 0 && tokens2.length === 0) return 100;
   if (tokens1.length === 0 || tokens2.length === 0) return 0;
@@ -19,5 +34,5 @@ export function tokenSortRatio(s1: string, s2: string): number {
   // Early exit: if sorted tokens are identical, perfect match
   if (sorted1 === sorted2) return 100;
 
-  return levenshteinRatio(sorted1, sorted2);
+  return getBaseRatio(options.mode, options.unicode)(sorted1, sorted2, scoreCutoff);
 }
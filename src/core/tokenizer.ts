@@ -3,6 +3,8 @@
  * Part of core layer as it's fundamental to token-based algorithms.
  */
 
+import { createSegmenter } from './segmenter';
+
 /**
  * Tokenizes a string into an array of lowercase tokens.
  * Splits on whitespace, dashes, and underscores.
@@ -39,6 +41,186 @@ export function tokenize(str: string): string[] {
   return tokens;
 }
 
+/**
+ * Splits a string into tokens.
+ */
+export type Tokenizer = (str: string) => string[];
+
+/**
+ * Transforms a token list after tokenization, e.g. removing stopwords or
+ * stemming.
+ */
+export type TokenProcessor = (tokens: string[]) => string[];
+
+export interface TokenizerOptions {
+  /** Characters that separate tokens (default: space, tab, newline, '-' and '_') */
+  delimiters?: string;
+  /**
+   * How punctuation outside `delimiters` is handled:
+   * - 'keep': part of the token (default)
+   * - 'split': separates tokens, like a delimiter
+   * - 'remove': dropped, so "don't" becomes "dont"
+   */
+  punctuation?: 'keep' | 'split' | 'remove';
+  /** Splits camelCase and PascalCase words, e.g. "HTTPServer" into "http" and "server" (default: false) */
+  splitCamelCase?: boolean;
+  /** Splits between letters and digits, e.g. "utf8" into "utf" and "8" (default: false) */
+  splitDigits?: boolean;
+  /** Keeps the original case of tokens instead of lowercasing them (default: false) */
+  preserveCase?: boolean;
+}
+
+const DEFAULT_DELIMITERS = ' \t\n-_';
+const PUNCTUATION = /\p{P}/u;
+
+/** Boundaries inside a word: lower to upper case, and before the last capital of an acronym */
+const CAMEL_CASE_BOUNDARY = '(?<=\\p{Ll})(?=\\p{Lu})|(?<=\\p{Lu})(?=\\p{Lu}\\p{Ll})';
+const DIGIT_BOUNDARY = '(?<=\\p{L})(?=\\p{N})|(?<=\\p{N})(?=\\p{L})';
+
+/**
+ * Creates a tokenizer with custom delimiters, punctuation handling,
+ * identifier splitting and case handling. Without options, returns `tokenize`.
+ *
+ * @example
+ * const identifiers = createTokenizer({ delimiters: ' ./', splitCamelCase: true });
+ * identifiers('foo.bar/getUserName'); // ['foo', 'bar', 'get', 'user', 'name']
+ *
+ * @param options - Tokenizer options
+ * @returns Tokenizer function
+ */
+export function createTokenizer(options: TokenizerOptions = {}): Tokenizer {
+  const {
+    delimiters = DEFAULT_DELIMITERS,
+    punctuation = 'keep',
+    splitCamelCase = false,
+    splitDigits = false,
+    preserveCase = false,
+  } = options;
+
+  if (
+    delimiters === DEFAULT_DELIMITERS &&
+    punctuation === 'keep' &&
+    !splitCamelCase &&
+    !splitDigits &&
+    !preserveCase
+  ) {
+    return tokenize;
+  }
+
+  const delimiterSet = new Set(delimiters);
+  const boundaries = [
+    ...(splitCamelCase ? [CAMEL_CASE_BOUNDARY] : []),
+    ...(splitDigits ? [DIGIT_BOUNDARY] : []),
+  ];
+  const wordBoundary = boundaries.length > 0 ? new RegExp(boundaries.join('|'), 'u') : null;
+
+  return (str: string): string[] => {
+    const words: string[] = [];
+    let word = '';
+
+    for (const char of str) {
+      const isPunctuation = punctuation !== 'keep' && PUNCTUATION.test(char);
+      if (delimiterSet.has(char) || (isPunctuation && punctuation === 'split')) {
+        if (word.length > 0) words.push(word);
+        word = '';
+      } else if (!isPunctuation) {
+        word += char;
+      }
+    }
+    if (word.length > 0) words.push(word);
+
+    // Case boundaries must be found before lowercasing
+    const tokens = wordBoundary
+      ? words.flatMap((w) => w.split(wordBoundary).filter((token) => token.length > 0))
+      : words;
+    return preserveCase ? tokens : tokens.map((token) => token.toLowerCase());
+  };
+}
+
+export interface LocaleTokenizerOptions {
+  /** Locale or locales for the word segmentation rules (default: runtime default) */
+  locale?: string | string[];
+  /** Keeps the original case of tokens instead of lowercasing them (default: false) */
+  preserveCase?: boolean;
+}
+
+/** Scripts written without spaces between words */
+const UNSPACED_SCRIPT =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}\u30fc]/u;
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+/**
+ * Splits unspaced runs (CJK, Thai, ...) into overlapping character bigrams
+ * and keeps other words whole. Used where `Intl.Segmenter` is unavailable.
+ */
+function bigramTokenize(str: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of str.split(/[\s\p{P}]+/u)) {
+    let run: string[] = [];
+    let other = '';
+    const flushRun = (): void => {
+      if (run.length === 1) tokens.push(run[0] ?? '');
+      for (let i = 0; i + 1 < run.length; i++) {
+        tokens.push(`${run[i] ?? ''}${run[i + 1] ?? ''}`);
+      }
+      run = [];
+    };
+    const flushOther = (): void => {
+      if (WORD_CHARACTER.test(other)) tokens.push(other);
+      other = '';
+    };
+
+    for (const char of word) {
+      if (UNSPACED_SCRIPT.test(char)) {
+        flushOther();
+        run.push(char);
+      } else {
+        flushRun();
+        other += char;
+      }
+    }
+    flushRun();
+    flushOther();
+  }
+
+  return tokens;
+}
+
+/**
+ * Creates a tokenizer that finds word boundaries with `Intl.Segmenter`, so
+ * Japanese, Chinese and Thai text written without spaces still splits into
+ * words. Spaces and punctuation are dropped.
+ *
+ * Where `Intl.Segmenter` is unavailable, runs of such scripts fall back to
+ * overlapping character bigrams, which still let token scorers match
+ * reordered phrases.
+ *
+ * @example
+ * const tokenizer = createLocaleTokenizer({ locale: 'ja' });
+ * tokenizer('東京タワーの近くのホテル'); // ['東京タワー', 'の', '近く', 'の', 'ホテル']
+ *
+ * @param options - Locale and case handling
+ * @returns Tokenizer function
+ */
+export function createLocaleTokenizer(options: LocaleTokenizerOptions = {}): Tokenizer {
+  const { locale, preserveCase = false } = options;
+  const segmenter = createSegmenter('word', locale);
+
+  const split = (str: string): string[] => {
+    if (segmenter === null) return bigramTokenize(str);
+    const tokens: string[] = [];
+    for (const { segment, isWordLike } of segmenter.segment(str)) {
+      if (isWordLike) tokens.push(segment);
+    }
+    return tokens;
+  };
+
+  return preserveCase
+    ? split
+    : (str: string): string[] => split(str).map((token) => token.toLowerCase());
+}
+
 /**
  * Sorts tokens and joins them into a single string.
  * Optimized for small arrays with inline sorting.
@@ -0,0 +1,294 @@
+/**
+ * Transliteration of Cyrillic, Greek, Arabic and Hebrew into Latin letters.
+ * Pure functions with no external dependencies.
+ *
+ * The tables favour plain ASCII spellings people type in search boxes
+ * ("Moskva", "Athina") over reversible scholarly systems. Arabic and Hebrew
+ * are mostly written without vowels, so only the consonants (and any vowel
+ * points present) are transliterated.
+ */
+
+export type TransliterationScript = 'cyrillic' | 'greek' | 'arabic' | 'hebrew';
+
+const ALL_SCRIPTS: TransliterationScript[] = ['cyrillic', 'greek', 'arabic', 'hebrew'];
+
+/** Russian, with Ukrainian, Belarusian, Serbian and Macedonian letters */
+const CYRILLIC: Record<string, string> = {
+  а: 'a',
+  б: 'b',
+  в: 'v',
+  г: 'g',
+  д: 'd',
+  е: 'e',
+  ё: 'yo',
+  ж: 'zh',
+  з: 'z',
+  и: 'i',
+  й: 'y',
+  к: 'k',
+  л: 'l',
+  м: 'm',
+  н: 'n',
+  о: 'o',
+  п: 'p',
+  р: 'r',
+  с: 's',
+  т: 't',
+  у: 'u',
+  ф: 'f',
+  х: 'kh',
+  ц: 'ts',
+  ч: 'ch',
+  ш: 'sh',
+  щ: 'shch',
+  ъ: '',
+  ы: 'y',
+  ь: '',
+  э: 'e',
+  ю: 'yu',
+  я: 'ya',
+  є: 'ye',
+  і: 'i',
+  ї: 'yi',
+  ґ: 'g',
+  ў: 'u',
+  ђ: 'dj',
+  ј: 'j',
+  љ: 'lj',
+  њ: 'nj',
+  ћ: 'c',
+  џ: 'dz',
+  ѓ: 'gj',
+  ќ: 'kj',
+  ѕ: 'dz',
+};
+
+/** Modern Greek, close to ELOT 743 */
+const GREEK: Record<string, string> = {
+  α: 'a',
+  ά: 'a',
+  β: 'v',
+  γ: 'g',
+  δ: 'd',
+  ε: 'e',
+  έ: 'e',
+  ζ: 'z',
+  η: 'i',
+  ή: 'i',
+  θ: 'th',
+  ι: 'i',
+  ί: 'i',
+  ϊ: 'i',
+  ΐ: 'i',
+  κ: 'k',
+  λ: 'l',
+  μ: 'm',
+  ν: 'n',
+  ξ: 'x',
+  ο: 'o',
+  ό: 'o',
+  π: 'p',
+  ρ: 'r',
+  σ: 's',
+  ς: 's',
+  τ: 't',
+  υ: 'y',
+  ύ: 'y',
+  ϋ: 'y',
+  ΰ: 'y',
+  φ: 'f',
+  χ: 'ch',
+  ψ: 'ps',
+  ω: 'o',
+  ώ: 'o',
+};
+
+/** Greek letter pairs spelled differently from their letters */
+const GREEK_DIGRAPHS: Record<string, string> = {
+  ου: 'ou',
+  ού: 'ou',
+  αυ: 'av',
+  αύ: 'av',
+  ευ: 'ev',
+  εύ: 'ev',
+  ηυ: 'iv',
+  ηύ: 'iv',
+  γγ: 'ng',
+  γξ: 'nx',
+  γχ: 'nch',
+};
+
+/** Arabic and Persian letters, short vowel marks and digits */
+const ARABIC: Record<string, string> = {
+  ا: 'a',
+  أ: 'a',
+  إ: 'i',
+  آ: 'aa',
+  ٱ: 'a',
+  ب: 'b',
+  ت: 't',
+  ث: 'th',
+  ج: 'j',
+  ح: 'h',
+  خ: 'kh',
+  د: 'd',
+  ذ: 'dh',
+  ر: 'r',
+  ز: 'z',
+  س: 's',
+  ش: 'sh',
+  ص: 's',
+  ض: 'd',
+  ط: 't',
+  ظ: 'z',
+  ع: '',
+  غ: 'gh',
+  ف: 'f',
+  ق: 'q',
+  ك: 'k',
+  ل: 'l',
+  م: 'm',
+  ن: 'n',
+  ه: 'h',
+  و: 'w',
+  ي: 'y',
+  ى: 'a',
+  ة: 'a',
+  ء: '',
+  ؤ: '',
+  ئ: '',
+  پ: 'p',
+  چ: 'ch',
+  ژ: 'zh',
+  گ: 'g',
+  ک: 'k',
+  ی: 'y',
+  '\u0640': '', // tatweel
+  '\u064b': 'an', // tanwin
+  '\u064c': 'un',
+  '\u064d': 'in',
+  '\u064e': 'a', // short vowels
+  '\u064f': 'u',
+  '\u0650': 'i',
+  '\u0651': '', // shadda
+  '\u0652': '', // sukun
+  '٠': '0',
+  '١': '1',
+  '٢': '2',
+  '٣': '3',
+  '٤': '4',
+  '٥': '5',
+  '٦': '6',
+  '٧': '7',
+  '٨': '8',
+  '٩': '9',
+};
+
+/** Hebrew consonants, including final forms */
+const HEBREW: Record<string, string> = {
+  א: '',
+  ב: 'b',
+  ג: 'g',
+  ד: 'd',
+  ה: 'h',
+  ו: 'v',
+  ז: 'z',
+  ח: 'kh',
+  ט: 't',
+  י: 'y',
+  כ: 'k',
+  ך: 'kh',
+  ל: 'l',
+  מ: 'm',
+  ם: 'm',
+  נ: 'n',
+  ן: 'n',
+  ס: 's',
+  ע: '',
+  פ: 'p',
+  ף: 'f',
+  צ: 'ts',
+  ץ: 'ts',
+  ק: 'k',
+  ר: 'r',
+  ש: 'sh',
+  ת: 't',
+};
+
+/** Hebrew vowel points and cantillation marks, which are dropped */
+const HEBREW_POINTS = /[\u0591-\u05bd\u05bf\u05c1\u05c2\u05c4\u05c5\u05c7]/g;
+
+const TABLES: Record<TransliterationScript, Record<string, string>> = {
+  cyrillic: CYRILLIC,
+  greek: GREEK,
+  arabic: ARABIC,
+  hebrew: HEBREW,
+};
+
+const mergedTables = new Map<string, Map<string, string>>();
+
+/** Merges the tables of the selected scripts, cached per selection */
+function getTable(scripts: TransliterationScript[]): Map<string, string> {
+  const key = scripts.join(',');
+  let table = mergedTables.get(key);
+  if (table === undefined) {
+    table = new Map(scripts.flatMap((script) => Object.entries(TABLES[script])));
+    mergedTables.set(key, table);
+  }
+  return table;
+}
+
+const isUpperCase = (char: string | undefined): boolean =>
+  char !== undefined && char !== char.toLowerCase();
+
+/**
+ * Cases a transliteration like its source letter: words in capitals stay in
+ * capitals ("ЖУК" -> "ZHUK"), capitalized letters are capitalized ("Жук" -> "Zhuk").
+ */
+function matchCase(latin: string, text: string, start: number, end: number): string {
+  if (!isUpperCase(text[start])) return latin;
+  if (isUpperCase(text[start - 1]) || isUpperCase(text[end])) return latin.toUpperCase();
+  return latin.charAt(0).toUpperCase() + latin.slice(1);
+}
+
+/**
+ * Transliterates text in the given scripts into Latin letters, keeping the
+ * letter case. Other characters are kept as they are.
+ *
+ * @example
+ * transliterate('Москва'); // 'Moskva'
+ * transliterate('Αθήνα', 'greek'); // 'Athina'
+ *
+ * @param str - Text to transliterate
+ * @param scripts - Script or scripts to transliterate (default: all)
+ * @returns Transliterated text
+ */
+export function transliterate(
+  str: string,
+  scripts: TransliterationScript | TransliterationScript[] = ALL_SCRIPTS
+): string {
+  const selected = Array.isArray(scripts) ? scripts : [scripts];
+  const table = getTable(selected);
+  const useDigraphs = selected.includes('greek');
+  let text = str.normalize('NFC');
+  if (selected.includes('hebrew')) text = text.replace(HEBREW_POINTS, '');
+
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i] ?? '';
+
+    if (useDigraphs) {
+      const digraph = GREEK_DIGRAPHS[(char + (text[i + 1] ?? '')).toLowerCase()];
+      if (digraph !== undefined) {
+        result += matchCase(digraph, text, i, i + 2);
+        i++;
+        continue;
+      }
+    }
+
+    const latin = table.get(char.toLowerCase());
+    result += latin === undefined ? char : matchCase(latin, text, i, i + 1);
+  }
+
+  return result;
+}
@@ -0,0 +1,178 @@
+/**
+ * Unicode-aware comparison units.
+ * Pure functions with no external dependencies beyond other core modules.
+ *
+ * JavaScript strings are sequences of UTF-16 code units, so an emoji or a
+ * supplementary-plane CJK character occupies two positions and a letter with
+ * a combining accent may occupy several. The helpers below let every core
+ * algorithm compare by code points or by extended grapheme clusters instead.
+ */
+
+import { createSegmenter, type Segmenter } from './segmenter';
+
+/**
+ * Unit of comparison:
+ * - 'codeUnit': UTF-16 code units (default, fastest)
+ * - 'codePoint': Unicode code points, so surrogate pairs count once
+ * - 'grapheme': extended grapheme clusters (user-perceived characters),
+ *   via `Intl.Segmenter` when available
+ */
+export type UnicodeMode = 'codeUnit' | 'codePoint' | 'grapheme';
+
+let graphemeSegmenter: Segmenter | null | undefined;
+
+function getGraphemeSegmenter(): Segmenter | null {
+  if (graphemeSegmenter === undefined) {
+    graphemeSegmenter = createSegmenter('grapheme');
+  }
+  return graphemeSegmenter;
+}
+
+const COMBINING_MARK = /^\p{M}$/u;
+
+/** Combining marks, ZWJ, emoji skin tone modifiers and tag characters */
+function isExtending(codePoint: string): boolean {
+  const code = codePoint.codePointAt(0) ?? 0;
+  return (
+    code === 0x200d ||
+    (code >= 0x1f3fb && code <= 0x1f3ff) ||
+    (code >= 0xe0020 && code <= 0xe007f) ||
+    COMBINING_MARK.test(codePoint)
+  );
+}
+
+function isRegionalIndicator(codePoint: string): boolean {
+  const code = codePoint.codePointAt(0) ?? 0;
+  return code >= 0x1f1e6 && code <= 0x1f1ff;
+}
+
+/**
+ * Approximates extended grapheme clusters where `Intl.Segmenter` is missing:
+ * combining marks, emoji modifiers, tags and ZWJ sequences extend the previous
+ * cluster, and regional indicators pair into flags.
+ */
+function fallbackGraphemes(str: string): string[] {
+  const clusters: string[] = [];
+  let joinNext = false;
+  let pendingFlag = false;
+
+  for (const codePoint of str) {
+    const last = clusters.length - 1;
+    const isRegional = isRegionalIndicator(codePoint);
+
+    if (last >= 0 && (joinNext || isExtending(codePoint) || (isRegional && pendingFlag))) {
+      clusters[last] += codePoint;
+      pendingFlag = false;
+    } else {
+      clusters.push(codePoint);
+      pendingFlag = isRegional;
+    }
+    joinNext = codePoint === '\u200d';
+  }
+
+  return clusters;
+}
+
+/**
+ * Splits a string into comparison units.
+ *
+ * @param str - String to split
+ * @param mode - Unit of comparison
+ * @returns The units of the string, in order
+ */
+export function splitUnits(str: string, mode: UnicodeMode): string[] {
+  if (mode === 'codeUnit') return str.split('');
+  if (mode === 'codePoint') return Array.from(str);
+
+  const segmenter = getGraphemeSegmenter();
+  if (segmenter === null) return fallbackGraphemes(str);
+  return Array.from(segmenter.segment(str), ({ segment }) => segment);
+}
+
+/**
+ * Counts the comparison units of a string.
+ *
+ * @param str - String to measure
+ * @param mode - Unit of comparison
+ * @returns Number of units
+ */
+export function unitLength(str: string, mode: UnicodeMode): number {
+  return mode === 'codeUnit' ? str.length : splitUnits(str, mode).length;
+}
+
+/** Private Use Area, used to stand in for multi-unit characters */
+const PRIVATE_USE_START = 0xe000;
+const PRIVATE_USE_END = 0xf8ff;
+
+/**
+ * Rewrites two strings so that every unit of the given mode is exactly one
+ * UTF-16 code unit. Units that already are one code unit are kept (so
+ * whitespace and ASCII behave as before); longer ones are replaced with
+ * Private Use Area characters that appear in neither string. Any core
+ * algorithm applied to the results then compares by that unit.
+ *
+ * Positions computed on the results count units, not UTF-16 offsets.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param mode - Unit of comparison
+ * @returns Both strings with one code unit per unit
+ * @throws If the strings contain more distinct multi-unit characters than
+ *   free Private Use Area code points
+ */
+export function encodeUnits(s1: string, s2: string, mode: UnicodeMode): [string, string] {
+  if (mode === 'codeUnit') return [s1, s2];
+
+  const units1 = splitUnits(s1, mode);
+  const units2 = splitUnits(s2, mode);
+  // Plain BMP text needs no rewriting
+  if (units1.length === s1.length && units2.length === s2.length) return [s1, s2];
+
+  const substitutes = new Map<string, string>();
+  let next = PRIVATE_USE_START;
+  const taken = (code: number): boolean => {
+    const char = String.fromCharCode(code);
+    return s1.includes(char) || s2.includes(char);
+  };
+
+  const encode = (units: string[]): string =>
+    units
+      .map((unit) => {
+        if (unit.length === 1) return unit;
+        let substitute = substitutes.get(unit);
+        if (substitute === undefined) {
+          while (next <= PRIVATE_USE_END && taken(next)) next++;
+          if (next > PRIVATE_USE_END) {
+            throw new Error('Too many distinct multi-unit characters to compare');
+          }
+          substitute = String.fromCharCode(next++);
+          substitutes.set(unit, substitute);
+        }
+        return substitute;
+      })
+      .join('');
+
+  return [encode(units1), encode(units2)];
+}
+
+/**
+ * Wraps a two-string core function so that it compares by the given unit.
+ *
+ * @example
+ * const graphemeDistance = withUnicodeMode(levenshteinDistance, 'grapheme');
+ * graphemeDistance('👍🏽', '👍'); // 1
+ *
+ * @param fn - Core function taking two strings followed by any other arguments
+ * @param mode - Unit of comparison
+ * @returns Function with the same signature comparing by units
+ */
+export function withUnicodeMode<A extends unknown[], R>(
+  fn: (s1: string, s2: string, ...rest: A) => R,
+  mode: UnicodeMode
+): (s1: string, s2: string, ...rest: A) => R {
+  if (mode === 'codeUnit') return fn;
+  return (s1: string, s2: string, ...rest: A): R => {
+    const [u1, u2] = encodeUnits(s1, s2, mode);
+    return fn(u1, u2, ...rest);
+  };
+}
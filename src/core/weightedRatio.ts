@@ -1,48 +1,218 @@
-import { levenshteinRatio } from './levenshtein';
 import { tokenSortRatio } from './tokenSortRatio';
 import { tokenSetRatio } from './tokenSetRatio';
 import { partialRatio } from './partialRatio';
+import { partialTokenSortRatio } from './partialTokenSortRatio';
+import { partialTokenSetRatio } from './partialTokenSetRatio';
+import { getBaseRatio, type RatioOptions } from './ratioOptions';
+import { unitLength } from './unicode';
 
-export function weightedRatio(s1: string, s2: string): number {
-  const len1 = s1.length;
-  const len2 = s2.length;
-  const lenRatio = len1 > len2 ? len2 / len1 : len1 / len2;
+/**
+ * Sub-scorers available to the weighted ratio. 'simple' is the base ratio of
+ * the ratio mode.
+ */
+export type WeightedRatioScorer =
+  | 'simple'
+  | 'partial'
+  | 'tokenSort'
+  | 'tokenSet'
+  | 'partialTokenSort'
+  | 'partialTokenSet';
 
-  // Early exit for identical strings
-  if (s1 === s2) return 100;
+/**
+ * Sub-scorers tried for one range of length ratios. The best scaled score wins.
+ */
+export interface WeightedRatioBranch {
+  /** Sub-scorers, tried in order; cheap ones first let later ones stop early */
+  scorers: WeightedRatioScorer[];
+  /** Factor applied to each sub-scorer's score (0-1, default: 1) */
+  scales?: Partial<Record<WeightedRatioScorer, number>>;
+}
 
-  if (lenRatio > 0.8) {
-    // Similar lengths - try simple ratio first (fastest)
-    const simpleRatio = levenshteinRatio(s1, s2);
-    if (simpleRatio === 100) return 100; // Early exit
+export interface WeightedRatioConfig {
+  /** Length ratios above this use the `similar` branch (default: 0.8) */
+  similarLengthRatio?: number;
+  /** Length ratios below this use the `different` branch (default: 0.6) */
+  differentLengthRatio?: number;
+  /** Branch for similar lengths (default: simple, tokenSort, tokenSet) */
+  similar?: WeightedRatioBranch;
+  /** Branch for lengths in between (default: simple, partial, tokenSort, tokenSet) */
+  middle?: WeightedRatioBranch;
+  /**
+   * Branch for very different lengths (default: partial, then tokenSort and
+   * tokenSet scaled by 0.95)
+   */
+  different?: WeightedRatioBranch;
+}
 
-    const tokenSort = tokenSortRatio(s1, s2);
-    if (tokenSort === 100) return 100; // Early exit
+export interface WeightedRatioOptions extends RatioOptions {
+  /**
+   * Also tries `partialTokenRatio`, scaled like the other token scores, when
+   * the lengths differ a lot (default: false)
+   */
+  partialTokenRatios?: boolean;
+}
 
-    const tokenSet = tokenSetRatio(s1, s2);
-    return Math.max(simpleRatio, tokenSort, tokenSet);
-  }
+/**
+ * Weighted ratio function returned by `createWeightedRatio`.
+ */
+export type WeightedRatioFunction = (
+  s1: string,
+  s2: string,
+  scoreCutoff?: number,
+  options?: RatioOptions
+) => number;
 
-  if (lenRatio < 0.6) {
-    // Very different lengths - partial ratio is most relevant
-    const partial = partialRatio(s1, s2);
-    if (partial === 100) return 100; // Early exit
+type SubScorer = (s1: string, s2: string, scoreCutoff: number, options: RatioOptions) => number;
 
-    const tokenSort = tokenSortRatio(s1, s2);
-    const tokenSet = tokenSetRatio(s1, s2);
+const SUB_SCORERS: Record<WeightedRatioScorer, SubScorer> = {
+  simple: (s1, s2, scoreCutoff, options) =>
+    getBaseRatio(options.mode, options.unicode)(s1, s2, scoreCutoff),
+  partial: partialRatio,
+  tokenSort: tokenSortRatio,
+  tokenSet: tokenSetRatio,
+  partialTokenSort: partialTokenSortRatio,
+  partialTokenSet: partialTokenSetRatio,
+};
 
-    return Math.max(partial, tokenSort * 0.95, tokenSet * 0.95);
+const TOKEN_SCALE = 0.95;
+
+const DEFAULT_CONFIG: Required<WeightedRatioConfig> = {
+  similarLengthRatio: 0.8,
+  differentLengthRatio: 0.6,
+  // Simple ratio first, as it is the cheapest
+  similar: { scorers: ['simple', 'tokenSort', 'tokenSet'] },
+  middle: { scorers: ['simple', 'partial', 'tokenSort', 'tokenSet'] },
+  // Partial ratio is most relevant; token scores are only a fallback
+  different: {
+    scorers: ['partial', 'tokenSort', 'tokenSet'],
+    scales: { tokenSort: TOKEN_SCALE, tokenSet: TOKEN_SCALE },
+  },
+};
+
+function validateConfig(config: Required<WeightedRatioConfig>): void {
+  const { similarLengthRatio, differentLengthRatio } = config;
+  for (const threshold of [similarLengthRatio, differentLengthRatio]) {
+    if (!(threshold >= 0 && threshold <= 1)) {
+      throw new Error('length ratio thresholds must be between 0 and 1');
+    }
+  }
+  if (differentLengthRatio > similarLengthRatio) {
+    throw new Error('differentLengthRatio must not exceed similarLengthRatio');
+  }
+  for (const branch of [config.similar, config.middle, config.different]) {
+    for (const scale of Object.values(branch.scales ?? {})) {
+      if (!(scale > 0 && scale <= 1)) {
+        throw new Error('scales must be greater than 0 and at most 1');
+      }
+    }
   }
+}
+
+/**
+ * Creates a weighted ratio with custom length-ratio thresholds, sub-scorers
+ * and scaling factors. Branches not given keep the defaults of `weightedRatio`.
+ *
+ * Every sub-scorer receives the best score found so far, divided by its
+ * scale, as its cutoff, so sub-scorers that cannot improve the result stop
+ * early.
+ *
+ * @example
+ * const codeRatio = createWeightedRatio({
+ *   differentLengthRatio: 0.3,
+ *   different: { scorers: ['partial', 'partialTokenSort'], scales: { partialTokenSort: 0.9 } },
+ * });
+ * codeRatio('abc', 'abc widget deluxe'); // 100
+ *
+ * @param config - Thresholds and branches
+ * @returns Weighted ratio function (0-100)
+ */
+export function createWeightedRatio(config: WeightedRatioConfig = {}): WeightedRatioFunction {
+  const resolved: Required<WeightedRatioConfig> = {
+    similarLengthRatio: config.similarLengthRatio ?? DEFAULT_CONFIG.similarLengthRatio,
+    differentLengthRatio: config.differentLengthRatio ?? DEFAULT_CONFIG.differentLengthRatio,
+    similar: config.similar ?? DEFAULT_CONFIG.similar,
+    middle: config.middle ?? DEFAULT_CONFIG.middle,
+    different: config.different ?? DEFAULT_CONFIG.different,
+  };
+  validateConfig(resolved);
+  const { similarLengthRatio, differentLengthRatio, similar, middle, different } = resolved;
+
+  const scoreBranch = (
+    branch: WeightedRatioBranch,
+    s1: string,
+    s2: string,
+    scoreCutoff: number,
+    options: RatioOptions
+  ): number => {
+    let best = 0;
+    for (const name of branch.scorers) {
+      const scale = branch.scales?.[name] ?? 1;
+      const score = SUB_SCORERS[name](s1, s2, Math.max(scoreCutoff, best) / scale, options);
+      if (score === 100 && scale === 1) return 100; // Early exit
+      best = Math.max(best, score * scale);
+    }
+    return best;
+  };
+
+  const ratio = (s1: string, s2: string, scoreCutoff = 0, options: RatioOptions = {}): number => {
+    // Early exit for identical strings
+    if (s1 === s2) return 100;
 
-  // Middle ground - try simple first (cheapest)
-  const simpleRatio = levenshteinRatio(s1, s2);
-  if (simpleRatio === 100) return 100;
+    // The sub-scorers compare by the unit themselves, so token ratios still
+    // tokenize the original strings
+    const unicode = options.unicode ?? 'codeUnit';
+    const len1 = unitLength(s1, unicode);
+    const len2 = unitLength(s2, unicode);
+    const lenRatio = len1 > len2 ? len2 / len1 : len1 / len2;
+    const branch =
+      lenRatio > similarLengthRatio
+        ? similar
+        : lenRatio < differentLengthRatio
+          ? different
+          : middle;
+
+    const best = scoreBranch(branch, s1, s2, scoreCutoff, options);
+    return best >= scoreCutoff ? best : 0;
+  };
+
+  return ratio;
+}
 
-  const partial = partialRatio(s1, s2);
-  if (partial === 100) return 100;
+const defaultWeightedRatio = createWeightedRatio();
 
-  const tokenSort = tokenSortRatio(s1, s2);
-  const tokenSet = tokenSetRatio(s1, s2);
+const partialTokenWeightedRatio = createWeightedRatio({
+  different: {
+    scorers: ['partial', 'tokenSort', 'tokenSet', 'partialTokenSet', 'partialTokenSort'],
+    scales: {
+      tokenSort: TOKEN_SCALE,
+      tokenSet: TOKEN_SCALE,
+      partialTokenSet: TOKEN_SCALE,
+      partialTokenSort: TOKEN_SCALE,
+    },
+  },
+});
 
-  return Math.max(simpleRatio, partial, tokenSort, tokenSet);
+/**
+ * Combines simple, partial and token-based ratios depending on how much the
+ * string lengths differ. Use `createWeightedRatio` to tune the thresholds,
+ * sub-scorers and scaling factors.
+ *
+ * Every sub-scorer receives the best score found so far as its cutoff, so
+ * branches that cannot improve the result stop early.
+ *
+ * @param s1 - First string
+ * @param s2 - Second string
+ * @param scoreCutoff - Minimum score of interest; lower scores are returned as 0 (default: 0)
+ * @param options - Base ratio mode, unit of comparison and token handling, applied to every
+ *   sub-scorer, and whether to use the partial token ratios
+ * @returns Weighted ratio (0-100)
+ */
+export function weightedRatio(
+  s1: string,
+  s2: string,
+  scoreCutoff = 0,
+  options: WeightedRatioOptions = {}
+): number {
+  const ratio = options.partialTokenRatios ? partialTokenWeightedRatio : defaultWeightedRatio;
+  return ratio(s1, s2, scoreCutoff, options);
 }
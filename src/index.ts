@@ -5,10 +5,30 @@
 // Scorers (main API)
 export {
   ratio,
+  osaRatio,
+  damerauLevenshteinRatio,
+  jaroRatio,
+  jaroWinklerRatio,
+  jaccardRatio,
+  diceRatio,
+  overlapRatio,
+  cosineRatio,
+  hammingRatio,
+  longestCommonSubstringRatio,
+  ratcliffObershelpRatio,
+  smithWatermanRatio,
+  needlemanWunschRatio,
+  phoneticRatio,
   partialRatio,
   tokenSortRatio,
   tokenSetRatio,
+  partialTokenSortRatio,
+  partialTokenSetRatio,
+  tokenRatio,
+  partialTokenRatio,
   WRatio,
+  mongeElkanRatio,
+  subsequenceRatio,
   type ScorerFunction,
   type ProcessorFunction,
 } from './scorers';
@@ -20,12 +40,141 @@ export { extract, extractOne, type ExtractResult, type ExtractOneResult } from '
 export {
   levenshteinDistance,
   levenshteinRatio,
+  weightedLevenshteinDistance,
+  weightedLevenshteinRatio,
+  type EditCosts,
+  type MultiCharSubstitution,
+  keyboardSubstitutionCost,
+  ocrSubstitutionCost,
+  substitutionTableCosts,
+  type KeyboardLayout,
+  type SubstitutionTable,
+  type SubstitutionTableOptions,
+  osaDistance,
+  osaRatio as coreOsaRatio,
+  damerauLevenshteinDistance,
+  damerauLevenshteinRatio as coreDamerauLevenshteinRatio,
+  jaro,
+  jaroWinkler,
+  type JaroWinklerOptions,
+  hammingDistance,
+  hammingRatio as coreHammingRatio,
+  longestCommonSubstring,
+  longestCommonSubstringRatio as coreLongestCommonSubstringRatio,
+  matchingBlocks,
+  ratcliffObershelpRatio as coreRatcliffObershelpRatio,
+  type MatchingBlock,
+  type RatcliffObershelpOptions,
+  smithWaterman,
+  smithWatermanRatio as coreSmithWatermanRatio,
+  needlemanWunsch,
+  needlemanWunschRatio as coreNeedlemanWunschRatio,
+  type AlignmentOptions,
+  type AlignmentResult,
+  soundex,
+  refinedSoundex,
+  metaphone,
+  doubleMetaphone,
+  nysiis,
+  phoneticEncode,
+  phoneticRatio as corePhoneticRatio,
+  type PhoneticAlgorithm,
+  type PhoneticOptions,
+  qgrams,
+  qgramJaccard,
+  qgramDice,
+  qgramOverlap,
+  qgramCosine,
+  type QGramOptions,
+  editops,
+  opcodes,
+  editopsToOpcodes,
+  applyEditops,
+  applyOpcodes,
+  invertEditops,
+  invertOpcodes,
+  type EditOp,
+  type EditOpType,
+  type Opcode,
+  type OpcodeType,
+  lcsSeqLength,
+  indelDistance,
+  indelNormalizedSimilarity,
+  indelRatio,
+  splitUnits,
+  unitLength,
+  encodeUnits,
+  withUnicodeMode,
+  type UnicodeMode,
+  type RatioMode,
+  type RatioOptions,
   partialRatio as corePartialRatio,
+  partialRatioAlignment,
+  type ScoreAlignment,
   tokenSortRatio as coreTokenSortRatio,
   tokenSetRatio as coreTokenSetRatio,
+  partialTokenSortRatio as corePartialTokenSortRatio,
+  partialTokenSetRatio as corePartialTokenSetRatio,
+  tokenRatio as coreTokenRatio,
+  partialTokenRatio as corePartialTokenRatio,
   weightedRatio,
+  createWeightedRatio,
+  type WeightedRatioOptions,
+  type WeightedRatioConfig,
+  type WeightedRatioBranch,
+  type WeightedRatioScorer,
+  type WeightedRatioFunction,
+  tokenize,
+  createTokenizer,
+  createLocaleTokenizer,
+  type Tokenizer,
+  type TokenizerOptions,
+  type LocaleTokenizerOptions,
+  type TokenProcessor,
+  getStopwords,
+  removeStopwords,
+  type StopwordLanguage,
+  porterStem,
+  stemTokens,
+  createSynonymNormalizer,
+  parseSynonymDictionary,
+  type SynonymDictionary,
+  transliterate,
+  type TransliterationScript,
+  mongeElkanRatio as coreMongeElkanRatio,
+  createSoftTfIdf,
+  type TokenSimilarity,
+  type MongeElkanOptions,
+  type SoftTfIdfOptions,
+  type SoftTfIdfFunction,
+  subsequenceMatch,
+  subsequenceRatio as coreSubsequenceRatio,
+  type SubsequenceMatch,
+  type SubsequenceOptions,
 } from './core';
 
+// Processors
+export {
+  defaultProcessor,
+  composeProcessors,
+  normalizationProcessor,
+  nfkcProcessor,
+  nfkdProcessor,
+  stripDiacriticsProcessor,
+  removePunctuationProcessor,
+  collapseWhitespaceProcessor,
+  caseFoldProcessor,
+  synonymProcessor,
+  transliterationProcessor,
+  type NormalizationForm,
+  phoneticProcessor,
+  soundexProcessor,
+  refinedSoundexProcessor,
+  metaphoneProcessor,
+  doubleMetaphoneProcessor,
+  nysiisProcessor,
+} from './utils/processor';
+
 // Decorators (TypeScript 6.0 decorators for enhanced APIs)
 export {
   Cache,
@@ -40,7 +189,14 @@ export {
 } from './decorators';
 
 // Function builders (for creating custom scorers)
-export { createScorer, scorerBuilder, ScorerBuilder, type ScorerConfig } from './builders';
+export {
+  createScorer,
+  scorerBuilder,
+  ScorerBuilder,
+  type ScorerConfig,
+  createSoftTfIdfScorer,
+  type SoftTfIdfScorerConfig,
+} from './builders';
 
 // Performance utilities
 export { profiler, Profile, type PerformanceMetrics } from './utils/performance';
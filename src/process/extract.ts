@@ -20,6 +20,13 @@ class MinHeap {
     }
   }
 
+  /**
+   * Lowest score a new result must beat to enter the heap; 0 until the heap is full.
+   */
+  threshold(): number {
+    return this.heap.length < this.size ? 0 : (this.heap[0]?.score ?? 0);
+  }
+
   getResults(): ExtractResult[] {
     return [...this.heap].sort((a, b) => {
       const diff = b.score - a.score;
@@ -78,18 +85,22 @@ class MinHeap {
 /**
  * Extracts the top N best matches from a list of choices.
  * Uses adaptive algorithms: full sort for small arrays, heap for medium, chunked processing for large.
+ * Once the heap is full, its lowest score is passed to the scorer as `scoreCutoff`,
+ * so choices that cannot enter the results are pruned early without changing them.
  *
  * @param query - The search query string
  * @param choices - Array of strings to search through
  * @param scorer - Scoring function (default: WRatio)
  * @param limit - Maximum number of results to return (default: 5)
+ * @param scoreCutoff - Minimum score for a choice to be returned (default: no minimum)
  * @returns Array of top N matches, sorted by score (descending)
  */
 export function extract(
   query: string,
   choices: string[],
   scorer: ScorerFunction = WRatio,
-  limit: number = 5
+  limit: number = 5,
+  scoreCutoff?: number
 ): ExtractResult[] {
   if (choices.length === 0) return [];
   if (limit <= 0) return [];
@@ -98,14 +109,17 @@ export function extract(
   }
 
   const len = choices.length;
+  const minScore = scoreCutoff ?? -Infinity;
 
   // For very small arrays, full sort is faster
   if (len <= limit * 2) {
     const results: ExtractResult[] = [];
     for (let i = 0; i < len; i++) {
       const choice = choices[i];
-      if (choice !== undefined) {
-        results.push({ choice, score: scorer(query, choice) });
+      if (choice === undefined) continue;
+      const score = scorer(query, choice, undefined, scoreCutoff);
+      if (score >= minScore) {
+        results.push({ choice, score });
       }
     }
 
@@ -123,7 +137,7 @@ export function extract(
   // For large arrays (8K+), use chunked processing with early termination
   // Lowered threshold for better performance on medium-large arrays
   if (len > 8000) {
-    return extractChunked(query, choices, scorer, limit);
+    return extractChunked(query, choices, scorer, limit, minScore);
   }
 
   // For medium arrays, use optimized heap
@@ -137,8 +151,8 @@ export function extract(
     const choice = choices[i];
     if (choice === undefined) continue;
 
-    // Quick pre-filter: if query is substring, likely high score
-    const score = scorer(query, choice);
+    const score = scorer(query, choice, undefined, Math.max(minScore, heap.threshold()));
+    if (score < minScore) continue;
     const result: ExtractResult = { choice, score };
 
     if (score === 100) {
@@ -168,7 +182,8 @@ function extractChunked(
   query: string,
   choices: string[],
   scorer: ScorerFunction,
-  limit: number
+  limit: number,
+  cutoff: number
 ): ExtractResult[] {
   // Dynamic chunk sizing: optimize based on array size
   const len = choices.length;
@@ -188,7 +203,8 @@ function extractChunked(
       const choice = choices[i];
       if (choice === undefined) continue;
 
-      const score = scorer(query, choice);
+      const score = scorer(query, choice, undefined, Math.max(cutoff, heap.threshold()));
+      if (score < cutoff) continue;
       const result: ExtractResult = { choice, score };
 
       if (score === 100) {
@@ -223,8 +239,9 @@ function extractChunked(
             const sampleEnd = Math.min(sampleStart + chunkSize, len);
             for (let i = sampleStart; i < sampleEnd; i++) {
               const choice = choices[i];
-              if (choice !== undefined) {
-                const score = scorer(query, choice);
+              if (choice === undefined) continue;
+              const score = scorer(query, choice, undefined, Math.max(cutoff, heap.threshold()));
+              if (score >= cutoff) {
                 heap.push({ choice, score });
               }
             }
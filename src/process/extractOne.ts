@@ -4,25 +4,30 @@ import { WRatio } from '../scorers';
 /**
  * Finds the single best match from a list of choices.
  * Optimized with early termination, chunked processing, and intelligent sampling.
+ * The best score found so far is passed to the scorer as `scoreCutoff`, so
+ * choices that cannot beat it are pruned early.
  *
  * @param query - The search query string
  * @param choices - Array of strings to search through
  * @param scorer - Scoring function (default: WRatio)
- * @returns Best match result or null if choices is empty
+ * @param scoreCutoff - Minimum score for a match to be returned (default: no minimum)
+ * @returns Best match result or null if choices is empty or no choice reaches scoreCutoff
  */
 export function extractOne(
   query: string,
   choices: string[],
-  scorer: ScorerFunction = WRatio
+  scorer: ScorerFunction = WRatio,
+  scoreCutoff?: number
 ): ExtractOneResult | null {
   if (choices.length === 0) return null;
 
+  const minScore = scoreCutoff ?? -Infinity;
   const len = choices.length;
   const firstChoice = choices[0];
   if (firstChoice === undefined) return null;
 
   let bestChoice = firstChoice;
-  let bestScore = scorer(query, bestChoice);
+  let bestScore = scorer(query, bestChoice, undefined, scoreCutoff);
 
   // Early exit optimization: if we find perfect match, stop searching
   if (bestScore === 100) {
@@ -35,7 +40,8 @@ export function extractOne(
   // For large arrays, use optimized chunked processing with intelligent sampling
   // Lowered threshold to 20K for better performance on medium-large arrays
   if (len > 20000) {
-    return extractOneChunked(query, choices, scorer, bestChoice, bestScore);
+    const result = extractOneChunked(query, choices, scorer, minScore, bestChoice, bestScore);
+    return result.score >= minScore ? result : null;
   }
 
   // Optimized loop: reduce function call overhead
@@ -43,7 +49,7 @@ export function extractOne(
     const choice = choices[i];
     if (choice === undefined) continue;
 
-    const score = scorer(query, choice);
+    const score = scorer(query, choice, undefined, Math.max(minScore, bestScore));
     if (score > bestScore) {
       bestScore = score;
       bestChoice = choice;
@@ -52,6 +58,8 @@ export function extractOne(
     }
   }
 
+  if (bestScore < minScore) return null;
+
   return {
     choice: bestChoice,
     score: bestScore,
@@ -63,6 +71,7 @@ function extractOneChunked(
   query: string,
   choices: string[],
   scorer: ScorerFunction,
+  minScore: number,
   initialChoice: string,
   initialScore: number
 ): ExtractOneResult {
@@ -96,7 +105,7 @@ function extractOneChunked(
       const idx = Math.floor(((len - 1) * (s + 1)) / (additionalSamples + 1));
       const choice = choices[idx];
       if (choice !== undefined) {
-        const score = scorer(query, choice);
+        const score = scorer(query, choice, undefined, Math.max(minScore, bestScore));
         if (score > bestScore) {
           bestScore = score;
           bestChoice = choice;
@@ -114,7 +123,7 @@ function extractOneChunked(
     for (const idx of sampleIndices) {
       const choice = choices[idx];
       if (choice !== undefined) {
-        const score = scorer(query, choice);
+        const score = scorer(query, choice, undefined, Math.max(minScore, bestScore));
         if (score > bestScore) {
           bestScore = score;
           bestChoice = choice;
@@ -137,7 +146,7 @@ function extractOneChunked(
         const randomIdx = Math.floor(Math.random() * len);
         const choice = choices[randomIdx];
         if (choice !== undefined) {
-          const score = scorer(query, choice);
+          const score = scorer(query, choice, undefined, Math.max(minScore, bestScore));
           if (score > bestScore) {
             bestScore = score;
             bestChoice = choice;
@@ -174,7 +183,7 @@ function extractOneChunked(
       const choice = choices[i];
       if (choice === undefined) continue;
 
-      const score = scorer(query, choice);
+      const score = scorer(query, choice, undefined, Math.max(minScore, bestScore));
       if (score > bestScore) {
         bestScore = score;
         bestChoice = choice;
@@ -202,7 +211,7 @@ function extractOneChunked(
           if (idx >= len) break;
           const choice = choices[idx];
           if (choice !== undefined) {
-            const score = scorer(query, choice);
+            const score = scorer(query, choice, undefined, Math.max(minScore, bestScore));
             if (score > bestScore) {
               bestScore = score;
               bestChoice = choice;
@@ -0,0 +1,13 @@
+import { damerauLevenshteinRatio as coreDamerauLevenshteinRatio } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function damerauLevenshteinRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number
+): number {
+  const proc = processor || defaultProcessor;
+  return coreDamerauLevenshteinRatio(proc(s1), proc(s2), scoreCutoff);
+}
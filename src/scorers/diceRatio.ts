@@ -0,0 +1,15 @@
+import { qgramDice, type QGramOptions } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function diceRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff = 0,
+  options?: QGramOptions
+): number {
+  const proc = processor || defaultProcessor;
+  const score = qgramDice(proc(s1), proc(s2), options) * 100;
+  return score >= scoreCutoff ? score : 0;
+}
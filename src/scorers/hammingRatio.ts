@@ -0,0 +1,13 @@
+import { hammingRatio as coreHammingRatio } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function hammingRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number
+): number {
+  const proc = processor || defaultProcessor;
+  return coreHammingRatio(proc(s1), proc(s2), scoreCutoff);
+}
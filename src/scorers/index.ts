@@ -4,9 +4,29 @@
  */
 
 export { ratio } from './ratio';
+export { osaRatio } from './osaRatio';
+export { damerauLevenshteinRatio } from './damerauLevenshteinRatio';
+export { jaroRatio } from './jaroRatio';
+export { jaroWinklerRatio } from './jaroWinklerRatio';
+export { jaccardRatio } from './jaccardRatio';
+export { diceRatio } from './diceRatio';
+export { overlapRatio } from './overlapRatio';
+export { cosineRatio } from './cosineRatio';
+export { hammingRatio } from './hammingRatio';
+export { longestCommonSubstringRatio } from './longestCommonSubstringRatio';
+export { ratcliffObershelpRatio } from './ratcliffObershelpRatio';
+export { smithWatermanRatio } from './smithWatermanRatio';
+export { needlemanWunschRatio } from './needlemanWunschRatio';
+export { phoneticRatio } from './phoneticRatio';
 export { partialRatio } from './partialRatio';
 export { tokenSortRatio } from './tokenSortRatio';
 export { tokenSetRatio } from './tokenSetRatio';
+export { partialTokenSortRatio } from './partialTokenSortRatio';
+export { partialTokenSetRatio } from './partialTokenSetRatio';
+export { tokenRatio } from './tokenRatio';
+export { partialTokenRatio } from './partialTokenRatio';
 export { WRatio } from './wRatio';
+export { mongeElkanRatio } from './mongeElkanRatio';
+export { subsequenceRatio } from './subsequenceRatio';
 
 export type { ScorerFunction, ProcessorFunction } from '../types';
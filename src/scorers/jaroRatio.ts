@@ -0,0 +1,14 @@
+import { jaro } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function jaroRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff = 0
+): number {
+  const proc = processor || defaultProcessor;
+  const score = jaro(proc(s1), proc(s2)) * 100;
+  return score >= scoreCutoff ? score : 0;
+}
@@ -0,0 +1,15 @@
+import { jaroWinkler, type JaroWinklerOptions } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function jaroWinklerRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff = 0,
+  options?: JaroWinklerOptions
+): number {
+  const proc = processor || defaultProcessor;
+  const score = jaroWinkler(proc(s1), proc(s2), options) * 100;
+  return score >= scoreCutoff ? score : 0;
+}
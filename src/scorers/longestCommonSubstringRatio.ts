@@ -0,0 +1,13 @@
+import { longestCommonSubstringRatio as coreLongestCommonSubstringRatio } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function longestCommonSubstringRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number
+): number {
+  const proc = processor || defaultProcessor;
+  return coreLongestCommonSubstringRatio(proc(s1), proc(s2), scoreCutoff);
+}
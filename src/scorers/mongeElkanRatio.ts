@@ -0,0 +1,14 @@
+import { mongeElkanRatio as coreMongeElkanRatio, type MongeElkanOptions } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function mongeElkanRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: MongeElkanOptions
+): number {
+  const proc = processor || defaultProcessor;
+  return coreMongeElkanRatio(proc(s1), proc(s2), scoreCutoff, options);
+}
@@ -0,0 +1,14 @@
+import { needlemanWunschRatio as coreNeedlemanWunschRatio, type AlignmentOptions } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function needlemanWunschRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: AlignmentOptions
+): number {
+  const proc = processor || defaultProcessor;
+  return coreNeedlemanWunschRatio(proc(s1), proc(s2), scoreCutoff, options);
+}
@@ -0,0 +1,13 @@
+import { osaRatio as coreOsaRatio } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function osaRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number
+): number {
+  const proc = processor || defaultProcessor;
+  return coreOsaRatio(proc(s1), proc(s2), scoreCutoff);
+}
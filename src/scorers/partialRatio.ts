@@ -1,8 +1,14 @@
-import { partialRatio as corePartialRatio } from '../core';
+import { partialRatio as corePartialRatio, type RatioOptions } from '../core';
 import { ProcessorFunction } from '../types';
 import { defaultProcessor } from '../utils/processor';
 
-export function partialRatio(s1: string, s2: string, processor?: ProcessorFunction): number {
+export function partialRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: RatioOptions
+): number {
   const proc = processor || defaultProcessor;
-  return corePartialRatio(proc(s1), proc(s2));
+  return corePartialRatio(proc(s1), proc(s2), scoreCutoff, options);
 }
@@ -0,0 +1,14 @@
+import { partialTokenSetRatio as corePartialTokenSetRatio, type RatioOptions } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function partialTokenSetRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: RatioOptions
+): number {
+  const proc = processor || defaultProcessor;
+  return corePartialTokenSetRatio(proc(s1), proc(s2), scoreCutoff, options);
+}
@@ -0,0 +1,14 @@
+import { partialTokenSortRatio as corePartialTokenSortRatio, type RatioOptions } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function partialTokenSortRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: RatioOptions
+): number {
+  const proc = processor || defaultProcessor;
+  return corePartialTokenSortRatio(proc(s1), proc(s2), scoreCutoff, options);
+}
@@ -0,0 +1,14 @@
+import { phoneticRatio as corePhoneticRatio, type PhoneticOptions } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function phoneticRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: PhoneticOptions
+): number {
+  const proc = processor || defaultProcessor;
+  return corePhoneticRatio(proc(s1), proc(s2), scoreCutoff, options);
+}
@@ -0,0 +1,17 @@
+import {
+  ratcliffObershelpRatio as coreRatcliffObershelpRatio,
+  type RatcliffObershelpOptions,
+} from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function ratcliffObershelpRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: RatcliffObershelpOptions
+): number {
+  const proc = processor || defaultProcessor;
+  return coreRatcliffObershelpRatio(proc(s1), proc(s2), scoreCutoff, options);
+}
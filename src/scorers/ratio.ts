@@ -1,8 +1,15 @@
-import { levenshteinRatio } from '../core';
+import { getBaseRatio, encodeUnits, type RatioOptions } from '../core';
 import { ProcessorFunction } from '../types';
 import { defaultProcessor } from '../utils/processor';
 
-export function ratio(s1: string, s2: string, processor?: ProcessorFunction): number {
+export function ratio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: RatioOptions
+): number {
   const proc = processor || defaultProcessor;
-  return levenshteinRatio(proc(s1), proc(s2));
+  const [u1, u2] = encodeUnits(proc(s1), proc(s2), options?.unicode ?? 'codeUnit');
+  return getBaseRatio(options?.mode)(u1, u2, scoreCutoff);
 }
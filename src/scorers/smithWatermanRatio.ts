@@ -0,0 +1,14 @@
+import { smithWatermanRatio as coreSmithWatermanRatio, type AlignmentOptions } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function smithWatermanRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: AlignmentOptions
+): number {
+  const proc = processor || defaultProcessor;
+  return coreSmithWatermanRatio(proc(s1), proc(s2), scoreCutoff, options);
+}
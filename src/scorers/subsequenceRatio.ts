@@ -0,0 +1,20 @@
+import { subsequenceRatio as coreSubsequenceRatio, type SubsequenceOptions } from '../core';
+import { ProcessorFunction } from '../types';
+
+/**
+ * Scores `s1` as a subsequence pattern in `s2`, e.g. a query against the
+ * choices of `extract`. Unlike the other scorers, strings are not processed
+ * by default: matching already ignores case, and the original case is
+ * needed to find camelCase humps.
+ */
+export function subsequenceRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: SubsequenceOptions
+): number {
+  const p1 = processor ? processor(s1) : s1;
+  const p2 = processor ? processor(s2) : s2;
+  return coreSubsequenceRatio(p1, p2, scoreCutoff, options);
+}
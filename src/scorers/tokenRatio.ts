@@ -0,0 +1,14 @@
+import { tokenRatio as coreTokenRatio, type RatioOptions } from '../core';
+import { ProcessorFunction } from '../types';
+import { defaultProcessor } from '../utils/processor';
+
+export function tokenRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: RatioOptions
+): number {
+  const proc = processor || defaultProcessor;
+  return coreTokenRatio(proc(s1), proc(s2), scoreCutoff, options);
+}
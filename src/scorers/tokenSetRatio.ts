@@ -1,8 +1,14 @@
-import { tokenSetRatio as coreTokenSetRatio } from '../core';
+import { tokenSetRatio as coreTokenSetRatio, type RatioOptions } from '../core';
 import { ProcessorFunction } from '../types';
 import { defaultProcessor } from '../utils/processor';
 
-export function tokenSetRatio(s1: string, s2: string, processor?: ProcessorFunction): number {
+export function tokenSetRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: RatioOptions
+): number {
   const proc = processor || defaultProcessor;
-  return coreTokenSetRatio(proc(s1), proc(s2));
+  return coreTokenSetRatio(proc(s1), proc(s2), scoreCutoff, options);
 }
@@ -1,8 +1,14 @@
-import { tokenSortRatio as coreTokenSortRatio } from '../core';
+import { tokenSortRatio as coreTokenSortRatio, type RatioOptions } from '../core';
 import { ProcessorFunction } from '../types';
 import { defaultProcessor } from '../utils/processor';
 
-export function tokenSortRatio(s1: string, s2: string, processor?: ProcessorFunction): number {
+export function tokenSortRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: RatioOptions
+): number {
   const proc = processor || defaultProcessor;
-  return coreTokenSortRatio(proc(s1), proc(s2));
+  return coreTokenSortRatio(proc(s1), proc(s2), scoreCutoff, options);
 }
@@ -1,8 +1,14 @@
-import { weightedRatio } from '../core';
+import { weightedRatio, type WeightedRatioOptions } from '../core';
 import { ProcessorFunction } from '../types';
 import { defaultProcessor } from '../utils/processor';
 
-export function WRatio(s1: string, s2: string, processor?: ProcessorFunction): number {
+export function WRatio(
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number,
+  options?: WeightedRatioOptions
+): number {
   const proc = processor || defaultProcessor;
-  return weightedRatio(proc(s1), proc(s2));
+  return weightedRatio(proc(s1), proc(s2), scoreCutoff, options);
 }
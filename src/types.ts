@@ -4,7 +4,17 @@
 
 export type ProcessorFunction = (str: string) => string;
 
-export type ScorerFunction = (s1: string, s2: string) => number;
+/**
+ * Scores two strings from 0 to 100.
+ * Scorers may return 0 for any score below `scoreCutoff`, which lets `extract`
+ * skip work for choices that cannot enter the result set.
+ */
+export type ScorerFunction = (
+  s1: string,
+  s2: string,
+  processor?: ProcessorFunction,
+  scoreCutoff?: number
+) => number;
 
 export interface ExtractResult {
   choice: string;
@@ -3,6 +3,174 @@
  * Layer above core - provides default processors for scorers.
  */
 
+import {
+  phoneticEncode,
+  createSynonymNormalizer,
+  transliterate,
+  type PhoneticAlgorithm,
+  type SynonymDictionary,
+  type TransliterationScript,
+} from '../core';
+import { ProcessorFunction } from '../types';
+
 export function defaultProcessor(str: string): string {
   return str.toLowerCase().trim();
 }
+
+/**
+ * Chains processors into one, applied from left to right.
+ *
+ * @example
+ * const processor = composeProcessors(nfkcProcessor, caseFoldProcessor(), stripDiacriticsProcessor);
+ * processor('Ｃａｆé'); // 'cafe'
+ *
+ * @param processors - Processors to apply in order
+ * @returns Processor running the whole pipeline
+ */
+export function composeProcessors(...processors: ProcessorFunction[]): ProcessorFunction {
+  return (str: string): string => processors.reduce((result, processor) => processor(result), str);
+}
+
+export type NormalizationForm = 'NFC' | 'NFD' | 'NFKC' | 'NFKD';
+
+/**
+ * Creates a processor applying Unicode normalization. The compatibility forms
+ * (NFKC, NFKD) also fold fullwidth letters, ligatures and superscripts, so
+ * "ＡＢＣ" becomes "ABC" and "ﬁ" becomes "fi".
+ *
+ * @param form - Normalization form (default: 'NFKC')
+ * @returns Processor normalizing its input
+ */
+export function normalizationProcessor(form: NormalizationForm = 'NFKC'): ProcessorFunction {
+  return (str: string): string => str.normalize(form);
+}
+
+export const nfkcProcessor = normalizationProcessor('NFKC');
+export const nfkdProcessor = normalizationProcessor('NFKD');
+
+/** Letters without a canonical decomposition that still carry an accent or ligature */
+const FOLDED_LETTERS: Record<string, string> = {
+  ß: 'ss',
+  ẞ: 'SS',
+  æ: 'ae',
+  Æ: 'AE',
+  œ: 'oe',
+  Œ: 'OE',
+  ø: 'o',
+  Ø: 'O',
+  đ: 'd',
+  Đ: 'D',
+  ð: 'd',
+  Ð: 'D',
+  ħ: 'h',
+  Ħ: 'H',
+  ı: 'i',
+  ł: 'l',
+  Ł: 'L',
+  þ: 'th',
+  Þ: 'TH',
+};
+const FOLDED_LETTER = new RegExp(`[${Object.keys(FOLDED_LETTERS).join('')}]`, 'g');
+
+/**
+ * Removes diacritics, so "Café" becomes "Cafe" and "Łódź" becomes "Lodz".
+ * Letters are decomposed and their nonspacing marks dropped; a few letters
+ * with no decomposition (ø, ł, ß, æ, ...) are mapped to their base letters.
+ *
+ * @param str - String to process
+ * @returns String without diacritics, in NFC
+ */
+export function stripDiacriticsProcessor(str: string): string {
+  return str
+    .normalize('NFD')
+    .replace(/\p{Mn}/gu, '')
+    .replace(FOLDED_LETTER, (letter) => FOLDED_LETTERS[letter] ?? letter)
+    .normalize('NFC');
+}
+
+/**
+ * Replaces punctuation with spaces, so "foo-bar" and "foo.bar" keep two
+ * tokens. Combine with `collapseWhitespaceProcessor` to drop the gaps.
+ *
+ * @param str - String to process
+ * @returns String without punctuation
+ */
+export function removePunctuationProcessor(str: string): string {
+  return str.replace(/\p{P}/gu, ' ');
+}
+
+/**
+ * Trims the string and collapses every run of whitespace into one space.
+ *
+ * @param str - String to process
+ * @returns String with single spaces between words
+ */
+export function collapseWhitespaceProcessor(str: string): string {
+  return str.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Creates a processor performing case folding: upper and lower case variants,
+ * including "ß" / "SS" and final sigma, compare equal.
+ *
+ * With a locale, its casing rules apply; for example in Turkish ('tr'),
+ * "İ" folds to "i" and "I" to dotless "ı".
+ *
+ * @param locale - BCP 47 locale tag (default: locale-independent folding)
+ * @returns Processor case-folding its input
+ */
+export function caseFoldProcessor(locale?: string): ProcessorFunction {
+  if (locale === undefined) {
+    return (str: string): string => str.toUpperCase().toLowerCase();
+  }
+  return (str: string): string => str.toLocaleUpperCase(locale).toLocaleLowerCase(locale);
+}
+
+/**
+ * Creates a processor that replaces each word with its phonetic code, so any
+ * scorer compares pronunciations instead of spellings.
+ *
+ * @param algorithm - Phonetic encoder
+ * @returns Processor producing space-separated phonetic codes
+ */
+export function phoneticProcessor(algorithm: PhoneticAlgorithm): ProcessorFunction {
+  return (str: string): string => phoneticEncode(str, algorithm);
+}
+
+export const soundexProcessor = phoneticProcessor('soundex');
+export const refinedSoundexProcessor = phoneticProcessor('refinedSoundex');
+export const metaphoneProcessor = phoneticProcessor('metaphone');
+export const doubleMetaphoneProcessor = phoneticProcessor('doubleMetaphone');
+export const nysiisProcessor = phoneticProcessor('nysiis');
+
+/**
+ * Creates a processor replacing synonyms and abbreviations with their
+ * canonical forms, so any scorer sees "Main St" as "main street". Words are
+ * split on whitespace and rejoined with single spaces.
+ *
+ * @param dictionary - Dictionary object, or its JSON text
+ * @returns Processor normalizing synonyms
+ */
+export function synonymProcessor(dictionary: SynonymDictionary | string): ProcessorFunction {
+  const normalize = createSynonymNormalizer(dictionary);
+  return (str: string): string =>
+    normalize(str.split(/\s+/).filter((word) => word.length > 0)).join(' ');
+}
+
+/**
+ * Creates a processor transliterating Cyrillic, Greek, Arabic and Hebrew
+ * into Latin letters, so "Moskva" can match "Москва". Compose it with
+ * `defaultProcessor` to lowercase the result as well.
+ *
+ * @example
+ * const processor = composeProcessors(transliterationProcessor('cyrillic'), defaultProcessor);
+ * processor('Москва'); // 'moskva'
+ *
+ * @param scripts - Script or scripts to transliterate (default: all)
+ * @returns Processor transliterating its input
+ */
+export function transliterationProcessor(
+  scripts?: TransliterationScript | TransliterationScript[]
+): ProcessorFunction {
+  return (str: string): string => transliterate(str, scripts);
+}
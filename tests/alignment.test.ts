@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  smithWaterman,
+  smithWatermanRatio,
+  needlemanWunsch,
+  needlemanWunschRatio,
+} from '../src/core/alignment';
+import { partialRatio } from '../src/core/partialRatio';
+
+/** Plain Smith-Waterman with a linear gap penalty, full matrix */
+function referenceLocalScore(s1: string, s2: string, gap: number): number {
+  let best = 0;
+  let prev = new Array<number>(s2.length + 1).fill(0);
+  for (let i = 1; i <= s1.length; i++) {
+    const curr = new Array<number>(s2.length + 1).fill(0);
+    for (let j = 1; j <= s2.length; j++) {
+      curr[j] = Math.max(
+        0,
+        (prev[j - 1] ?? 0) + (s1[i - 1] === s2[j - 1] ? 2 : -1),
+        (prev[j] ?? 0) - gap,
+        (curr[j - 1] ?? 0) - gap
+      );
+      best = Math.max(best, curr[j] ?? 0);
+    }
+    prev = curr;
+  }
+  return best;
+}
+
+describe('smithWaterman', () => {
+  it('should find an intact needle with a full score', () => {
+    const result = smithWaterman('needle', 'haystack with a needle in it');
+    expect(result.score).toBe(100);
+    expect(result.rawScore).toBe(12);
+    expect(result).toMatchObject({ sourceStart: 0, sourceEnd: 6, destStart: 16, destEnd: 22 });
+  });
+
+  it('should align across insertions in the haystack', () => {
+    const result = smithWaterman('needle', 'xx nexedle yy');
+    expect(result.rawScore).toBe(10);
+    expect(result.score).toBeCloseTo(83.33, 2);
+    expect(result).toMatchObject({ sourceStart: 0, sourceEnd: 6, destStart: 3, destEnd: 10 });
+  });
+
+  it('should extend through a mismatch when it pays off', () => {
+    const result = smithWaterman('abcxef', 'abcdef');
+    expect(result.rawScore).toBe(9);
+    expect(result.score).toBe(75);
+  });
+
+  it('should charge affine gaps less than repeated gap openings', () => {
+    const linear = smithWaterman('abcdefgh', 'abcdxxxxefgh', { gapOpen: 2, gapExtend: 2 });
+    const affine = smithWaterman('abcdefgh', 'abcdxxxxefgh', { gapOpen: 2, gapExtend: 0.5 });
+    expect(linear.rawScore).toBe(8);
+    expect(affine.rawScore).toBe(16 - 3.5);
+  });
+
+  it('should match a linear-gap reference when open and extend are equal', () => {
+    const pairs: Array<[string, string]> = [
+      ['kitten', 'sitting'],
+      ['GATTACA', 'GCATGCU'],
+      ['the quick brown fox', 'quack brown fax'],
+      ['abc', 'xyz'],
+    ];
+    for (const [s1, s2] of pairs) {
+      expect(smithWaterman(s1, s2, { gapOpen: 1, gapExtend: 1 }).rawScore).toBe(
+        referenceLocalScore(s1, s2, 1)
+      );
+    }
+  });
+
+  it('should handle empty strings', () => {
+    expect(smithWaterman('', '').score).toBe(100);
+    expect(smithWaterman('abc', '').score).toBe(0);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => smithWaterman('a', 'b', { match: 0 })).toThrow();
+    expect(() => smithWaterman('a', 'b', { gapOpen: -1 })).toThrow();
+  });
+});
+
+describe('needlemanWunsch', () => {
+  it('should align both strings end to end', () => {
+    const result = needlemanWunsch('abc', 'abd');
+    expect(result.rawScore).toBe(3);
+    expect(result.score).toBe(50);
+    expect(result).toMatchObject({ sourceStart: 0, sourceEnd: 3, destStart: 0, destEnd: 3 });
+  });
+
+  it('should charge leading and trailing gaps', () => {
+    expect(needlemanWunsch('abc', 'xxabcxx').rawScore).toBe(6 - 3 - 3);
+    expect(smithWaterman('abc', 'xxabcxx').rawScore).toBe(6);
+  });
+
+  it('should clamp negative scores to 0', () => {
+    const result = needlemanWunsch('abc', '');
+    expect(result.rawScore).toBe(-4);
+    expect(result.score).toBe(0);
+  });
+});
+
+describe('alignment ratios', () => {
+  it('should return 100 for identical strings', () => {
+    expect(smithWatermanRatio('hello', 'hello')).toBe(100);
+    expect(needlemanWunschRatio('hello', 'hello')).toBe(100);
+  });
+
+  it('should score gapped needles above the sliding window', () => {
+    expect(smithWatermanRatio('needle', 'xx nexedle yy')).toBeGreaterThan(
+      partialRatio('needle', 'xx nexedle yy')
+    );
+  });
+
+  it('should return 0 below the score cutoff', () => {
+    expect(smithWatermanRatio('abcxef', 'abcdef', 80)).toBe(0);
+    expect(needlemanWunschRatio('abc', 'abd', 60)).toBe(0);
+    expect(needlemanWunschRatio('abc', 'abd', 50)).toBe(50);
+  });
+
+  it('should accept alignment options', () => {
+    expect(smithWatermanRatio('abcxef', 'abcdef', 0, { mismatch: -10 })).toBe(50);
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
 import { createScorer, scorerBuilder } from '../src/builders';
+import { createTokenizer, jaro, jaroWinkler } from '../src/core';
+import {
+  composeProcessors,
+  nfkcProcessor,
+  caseFoldProcessor,
+  stripDiacriticsProcessor,
+} from '../src/utils/processor';
 
 describe('createScorer', () => {
   it('should create a scorer with default config', () => {
@@ -39,6 +46,72 @@ describe('createScorer', () => {
     expect(score).toBeGreaterThan(80);
   });
 
+  it('should create a scorer with osa algorithm', () => {
+    const scorer = createScorer({ algorithm: 'osa' });
+    expect(scorer('teh', 'the')).toBeGreaterThan(
+      createScorer({ algorithm: 'simple' })('teh', 'the')
+    );
+  });
+
+  it('should create a scorer with damerauLevenshtein algorithm', () => {
+    const scorer = createScorer({ algorithm: 'damerauLevenshtein' });
+    expect(scorer('ca', 'abc')).toBeCloseTo(33.33, 1);
+  });
+
+  it('should create a scorer with jaro algorithm', () => {
+    const scorer = createScorer({ algorithm: 'jaro' });
+    expect(scorer('MARTHA', 'MARHTA')).toBeCloseTo(94.44, 2);
+  });
+
+  it('should create a scorer with jaroWinkler algorithm', () => {
+    const scorer = createScorer({ algorithm: 'jaroWinkler' });
+    expect(scorer('MARTHA', 'MARHTA')).toBeCloseTo(96.11, 2);
+  });
+
+  it('should create scorers with q-gram algorithms', () => {
+    expect(createScorer({ algorithm: 'jaccard' })('night', 'nacht')).toBeCloseTo(14.29, 2);
+    expect(createScorer({ algorithm: 'dice' })('night', 'nacht')).toBeCloseTo(25, 10);
+    expect(createScorer({ algorithm: 'overlap' })('abc', 'xxabcxx')).toBe(100);
+    expect(createScorer({ algorithm: 'cosine' })('night', 'nacht')).toBeCloseTo(25, 10);
+  });
+
+  it('should pass q-gram options to q-gram algorithms', () => {
+    const scorer = createScorer({ algorithm: 'dice', qgramOptions: { padding: true } });
+    expect(scorer('night', 'nacht')).toBeCloseTo(50, 10);
+  });
+
+  it('should pass Jaro-Winkler options to the jaroWinkler algorithm', () => {
+    const scorer = createScorer({
+      algorithm: 'jaroWinkler',
+      jaroWinklerOptions: { prefixScale: 0.125, maxPrefixLength: 8 },
+    });
+    expect(scorer('abcdefgx', 'abcdefgy')).toBeCloseTo(
+      jaroWinkler('abcdefgx', 'abcdefgy', { prefixScale: 0.125, maxPrefixLength: 8 }) * 100,
+      10
+    );
+    expect(scorer('abcdefgx', 'abcdefgy')).toBeGreaterThan(
+      createScorer({ algorithm: 'jaroWinkler' })('abcdefgx', 'abcdefgy')
+    );
+  });
+
+  it('should create a scorer with phonetic algorithm', () => {
+    const scorer = createScorer({ algorithm: 'phonetic', phoneticAlgorithm: 'metaphone' });
+    expect(scorer('Catherine', 'Kathryn')).toBe(100);
+  });
+
+  it('should blend the phonetic ratio into another algorithm', () => {
+    const base = createScorer({ algorithm: 'weighted' });
+    const blended = createScorer({ algorithm: 'weighted', phoneticWeight: 0.5 });
+    const baseScore = base('Catherine', 'Kathryn');
+    expect(blended('Catherine', 'Kathryn')).toBeCloseTo(0.5 * baseScore + 50, 10);
+    expect(blended('Catherine', 'Kathryn', undefined, 75)).toBeCloseTo(0.5 * baseScore + 50, 10);
+    expect(blended('Catherine', 'Kathryn', undefined, 80)).toBe(0);
+  });
+
+  it('should reject phonetic weights outside 0-1', () => {
+    expect(() => createScorer({ phoneticWeight: 1.5 })).toThrow();
+  });
+
   it('should respect min score bound', () => {
     const scorer = createScorer({ minScore: 50 });
     const score = scorer('abc', 'def');
@@ -65,6 +138,13 @@ describe('createScorer', () => {
     expect(score).toBe(100);
   });
 
+  it('should create partial token scorers', () => {
+    const sort = createScorer({ algorithm: 'partialTokenSort' });
+    const set = createScorer({ algorithm: 'partialTokenSet' });
+    expect(sort('Fuzzy Bear', 'bear wuzzy was fuzzy')).toBe(100);
+    expect(set('York Giants', 'new york mets')).toBe(100);
+  });
+
   it('should handle empty strings', () => {
     const scorer = createScorer();
     const score = scorer('', '');
@@ -103,6 +183,71 @@ describe('scorerBuilder', () => {
     expect(score).toBe(100);
   });
 
+  it('should enable the partial token ratios of the weighted algorithm', () => {
+    const scorer = scorerBuilder().withPartialTokenRatios().build();
+    expect(scorer('York Giants', 'new york mets baseball team tonight')).toBe(95);
+    expect(createScorer()('York Giants', 'new york mets baseball team tonight')).toBeLessThan(95);
+  });
+
+  it('should configure the weighted ratio', () => {
+    const scorer = scorerBuilder()
+      .withWeightedRatio({
+        different: { scorers: ['partialTokenSet'], scales: { partialTokenSet: 0.9 } },
+      })
+      .build();
+    expect(scorer('York Giants', 'new york mets baseball team tonight')).toBe(90);
+    expect(() => createScorer({ weightedRatio: { differentLengthRatio: -1 } })).toThrow(
+      'length ratio thresholds must be between 0 and 1'
+    );
+  });
+
+  it('should configure fuzzy token matching', () => {
+    const scorer = scorerBuilder().withAlgorithm('tokenSet').withTokenMatchThreshold(70).build();
+    expect(scorer('Recieve Payment', 'receive payments')).toBeGreaterThan(80);
+    expect(createScorer({ algorithm: 'tokenSet' })('Recieve Payment', 'receive payments')).toBe(0);
+  });
+
+  it('should configure Jaro-Winkler options', () => {
+    const scorer = scorerBuilder()
+      .withAlgorithm('jaroWinkler')
+      .withJaroWinklerOptions({ prefixScale: 0 })
+      .build();
+    expect(scorer('MARTHA', 'MARHTA')).toBeCloseTo(jaro('MARTHA', 'MARHTA') * 100, 10);
+  });
+
+  it('should configure q-gram options', () => {
+    const scorer = scorerBuilder().withAlgorithm('dice').withQGramOptions({ n: 3 }).build();
+    expect(scorer('night', 'nacht')).toBe(0);
+  });
+
+  it('should configure phonetic blending', () => {
+    const scorer = scorerBuilder()
+      .withAlgorithm('simple')
+      .withPhoneticAlgorithm('soundex')
+      .withPhoneticWeight(1)
+      .build();
+    expect(scorer('Smyth', 'Smith')).toBe(100);
+  });
+
+  it('should accept a processor pipeline', () => {
+    const scorer = scorerBuilder()
+      .withAlgorithm('simple')
+      .withProcessor(
+        composeProcessors(nfkcProcessor, caseFoldProcessor(), stripDiacriticsProcessor)
+      )
+      .build();
+    expect(scorer('\uff23\uff21\uff26\u00c9', 'cafe')).toBe(100);
+  });
+
+  it('should pass a custom tokenizer to the token algorithms', () => {
+    const scorer = scorerBuilder()
+      .withAlgorithm('tokenSort')
+      .withProcessor((str) => str)
+      .withTokenizer(createTokenizer({ splitCamelCase: true }))
+      .build();
+    expect(scorer('HTTPServer', 'server http')).toBe(100);
+  });
+
   it('should allow multiple builder instances', () => {
     const scorer1 = scorerBuilder().withAlgorithm('simple').build();
     const scorer2 = scorerBuilder().withAlgorithm('partial').build();
@@ -111,6 +256,29 @@ describe('scorerBuilder', () => {
     expect(scorer2('abc', 'abcdef')).toBe(100);
   });
 
+  it('should pass edit costs to the simple algorithm', () => {
+    const cheapSubstitution = scorerBuilder()
+      .withAlgorithm('simple')
+      .withEditCosts({ substitution: 0.25 })
+      .build();
+    const plain = scorerBuilder().withAlgorithm('simple').build();
+    expect(plain('abcd', 'abxd')).toBe(plain('abcd', 'abd'));
+    expect(cheapSubstitution('abcd', 'abxd')).toBeGreaterThan(cheapSubstitution('abcd', 'abd'));
+  });
+
+  it('should reject edit costs and substitution tables with other algorithms', () => {
+    const message = 'editCosts and substitutionTable are only supported by the simple algorithm';
+    expect(() =>
+      createScorer({ algorithm: 'tokenSort', editCosts: { substitution: 100 } })
+    ).toThrow(message);
+    expect(() => createScorer({ algorithm: 'partial', substitutionTable: 'qwerty' })).toThrow(
+      message
+    );
+    expect(() =>
+      scorerBuilder().withAlgorithm('weighted').withSubstitutionTable('ocr').build()
+    ).toThrow(message);
+  });
+
   it('should handle builder reuse', () => {
     const builder = scorerBuilder().withAlgorithm('weighted');
     const scorer1 = builder.withMinScore(50).build();
@@ -1,13 +1,22 @@
 import { describe, it, expect } from 'vitest';
 import {
+  levenshteinRatio,
   partialRatio,
+  partialRatioAlignment,
   tokenSortRatio,
   tokenSetRatio,
+  partialTokenSortRatio,
+  partialTokenSetRatio,
+  tokenRatio,
+  partialTokenRatio,
   weightedRatio,
+  createWeightedRatio,
   tokenize,
+  createTokenizer,
   sortTokens,
   tokenSet,
 } from '../src/core';
+import { maxWeightAssignment } from '../src/core/assignment';
 
 describe('Core Algorithms', () => {
   describe('partialRatio', () => {
@@ -40,6 +49,45 @@ describe('Core Algorithms', () => {
     });
   });
 
+  describe('partialRatioAlignment', () => {
+    it('should locate an exact substring', () => {
+      expect(partialRatioAlignment('world', 'hello world')).toEqual({
+        score: 100,
+        sourceStart: 0,
+        sourceEnd: 5,
+        destStart: 6,
+        destEnd: 11,
+      });
+    });
+
+    it('should report the window in the first string when it is longer', () => {
+      expect(partialRatioAlignment('hello world', 'world')).toEqual({
+        score: 100,
+        sourceStart: 6,
+        sourceEnd: 11,
+        destStart: 0,
+        destEnd: 5,
+      });
+    });
+
+    it('should locate the best approximate window', () => {
+      const description = 'Stainless steel wireless kettle with auto shutoff';
+      const alignment = partialRatioAlignment('wirelss kettle', description);
+      expect(alignment.score).toBe(partialRatio('wirelss kettle', description));
+      expect(description.slice(alignment.destStart, alignment.destEnd)).toBe('wireless kettl');
+    });
+
+    it('should handle empty strings', () => {
+      expect(partialRatioAlignment('', 'test')).toEqual({
+        score: 0,
+        sourceStart: 0,
+        sourceEnd: 0,
+        destStart: 0,
+        destEnd: 0,
+      });
+    });
+  });
+
   describe('tokenSortRatio', () => {
     it('should match regardless of word order', () => {
       expect(tokenSortRatio('John Smith', 'Smith John')).toBe(100);
@@ -84,6 +132,96 @@ describe('Core Algorithms', () => {
       const score = tokenSetRatio('apple banana', 'orange grape');
       expect(score).toBe(0);
     });
+
+    it('should count similar tokens as shared with tokenMatchThreshold', () => {
+      const options = { tokenMatchThreshold: 70 };
+      expect(tokenSetRatio('recieve payment', 'receive payments')).toBe(0);
+      expect(tokenSetRatio('recieve payment', 'receive payments', 0, options)).toBe(
+        levenshteinRatio('payment recieve', 'payments receive')
+      );
+      // Extra words are tolerated as with exact matches
+      expect(tokenSetRatio('recieve payment', 'receive payments now', 0, options)).toBe(
+        tokenSetRatio('recieve payment', 'receive payments', 0, options)
+      );
+      expect(tokenSetRatio('receive payments now', 'recieve payment', 0, options)).toBe(
+        tokenSetRatio('recieve payment', 'receive payments now', 0, options)
+      );
+    });
+
+    it('should only match tokens reaching the threshold', () => {
+      expect(
+        tokenSetRatio('recieve payment', 'receive payments', 0, { tokenMatchThreshold: 80 })
+      ).toBe(tokenSetRatio('payment recieve', 'payments receive', 0, { tokenMatchThreshold: 80 }));
+      expect(tokenSetRatio('apple banana', 'orange grape', 0, { tokenMatchThreshold: 70 })).toBe(0);
+      expect(tokenSetRatio('hello world', 'world hello', 0, { tokenMatchThreshold: 70 })).toBe(100);
+    });
+
+    it('should pair every token that reaches the threshold', () => {
+      expect(tokenSetRatio('jhon smiht', 'john smith', 0, { tokenMatchThreshold: 50 })).toBe(
+        levenshteinRatio('jhon smiht', 'john smith')
+      );
+    });
+  });
+
+  describe('maxWeightAssignment', () => {
+    it('should find the assignment with the largest total weight', () => {
+      // Greedy picks (0, 0) = 9 and then (1, 1) = 1; the optimum is 8 + 7
+      expect(
+        maxWeightAssignment([
+          [9, 8],
+          [7, 1],
+        ])
+      ).toEqual([
+        [0, 1],
+        [1, 0],
+      ]);
+    });
+
+    it('should handle rectangular matrices and skip zero weights', () => {
+      expect(maxWeightAssignment([[1], [5], [3]])).toEqual([[1, 0]]);
+      expect(maxWeightAssignment([[0, 2, 3]])).toEqual([[0, 2]]);
+      expect(maxWeightAssignment([[0, 0]])).toEqual([]);
+      expect(maxWeightAssignment([])).toEqual([]);
+    });
+  });
+
+  describe('partialTokenSortRatio', () => {
+    it('should match reordered tokens inside a longer string', () => {
+      expect(partialTokenSortRatio('fuzzy bear', 'bear wuzzy was fuzzy')).toBe(100);
+      expect(partialTokenSortRatio('John Smith', 'Smith John A')).toBe(100);
+    });
+
+    it('should handle empty strings', () => {
+      expect(partialTokenSortRatio('', '')).toBe(100);
+      expect(partialTokenSortRatio('hello', '')).toBe(0);
+    });
+  });
+
+  describe('partialTokenSetRatio', () => {
+    it('should return 100 when any token is shared', () => {
+      expect(partialTokenSetRatio('york giants', 'new york mets baseball team')).toBe(100);
+    });
+
+    it('should compare the tokens partially when none are shared', () => {
+      expect(partialTokenSetRatio('yorks', 'new york')).toBe(partialRatio('yorks', 'new york'));
+      expect(partialTokenSetRatio('abc', 'xyz qwe')).toBe(0);
+    });
+  });
+
+  describe('tokenRatio and partialTokenRatio', () => {
+    it('should return the best of the combined ratios', () => {
+      const pairs: Array<[string, string]> = [
+        ['new yerk meets', 'the new york mets won'],
+        ['York New', 'new york mets vs atlanta braves'],
+        ['apple banana', 'orange grape'],
+      ];
+      for (const [a, b] of pairs) {
+        expect(tokenRatio(a, b)).toBe(Math.max(tokenSortRatio(a, b), tokenSetRatio(a, b)));
+        expect(partialTokenRatio(a, b)).toBe(
+          Math.max(partialTokenSortRatio(a, b), partialTokenSetRatio(a, b))
+        );
+      }
+    });
   });
 
   describe('weightedRatio', () => {
@@ -110,7 +248,105 @@ describe('Core Algorithms', () => {
       const different = weightedRatio('abc', 'abcdefghijklmnopqrstuvwxyz');
       expect(different).toBeGreaterThan(0);
     });
+
+    it('should use the partial token ratios for very different lengths when enabled', () => {
+      const short = 'york giants';
+      const long = 'new york mets baseball team tonight';
+      expect(weightedRatio(short, long)).toBeLessThan(95);
+      expect(weightedRatio(short, long, 0, { partialTokenRatios: true })).toBe(95);
+      // Similar lengths are not affected
+      expect(weightedRatio('new york', 'york city', 0, { partialTokenRatios: true })).toBe(
+        weightedRatio('new york', 'york city')
+      );
+    });
   });
+
+  describe('createWeightedRatio', () => {
+    const pairs: Array<[string, string]> = [
+      ['hello world', 'hello wrld'],
+      ['new york mets', 'the new york mets game'],
+      ['abc', 'abcdefghijklmnopqrstuvwxyz'],
+      ['york giants', 'new york mets baseball team tonight'],
+    ];
+
+    it('should match weightedRatio with the default config', () => {
+      const ratio = createWeightedRatio();
+      for (const [a, b] of pairs) {
+        expect(ratio(a, b)).toBe(weightedRatio(a, b));
+        expect(ratio(a, b, 0, { mode: 'indel' })).toBe(weightedRatio(a, b, 0, { mode: 'indel' }));
+      }
+    });
+
+    it('should use custom thresholds, scorers and scales', () => {
+      // A 0.3 length ratio now falls into the middle branch
+      const ratio = createWeightedRatio({
+        differentLengthRatio: 0.2,
+        middle: { scorers: ['simple', 'tokenSet'] },
+      });
+      expect(ratio('york giants', 'new york mets baseball team tonight')).toBe(
+        Math.max(
+          levenshteinRatio('york giants', 'new york mets baseball team tonight'),
+          tokenSetRatio('york giants', 'new york mets baseball team tonight')
+        )
+      );
+
+      const scaled = createWeightedRatio({
+        different: { scorers: ['partialTokenSet'], scales: { partialTokenSet: 0.9 } },
+      });
+      expect(scaled('york giants', 'new york mets baseball team tonight')).toBe(90);
+    });
+
+    it('should reject invalid configs', () => {
+      expect(() => createWeightedRatio({ similarLengthRatio: 1.5 })).toThrow(
+        'length ratio thresholds must be between 0 and 1'
+      );
+      expect(() => createWeightedRatio({ similarLengthRatio: 0.5 })).toThrow(
+        'differentLengthRatio must not exceed similarLengthRatio'
+      );
+      expect(() =>
+        createWeightedRatio({ similar: { scorers: ['simple'], scales: { simple: 0 } } })
+      ).toThrow('scales must be greater than 0 and at most 1');
+    });
+  });
+});
+
+describe('scoreCutoff', () => {
+  const pairs: Array<[string, string]> = [
+    ['hello world', 'hello wrld'],
+    ['new york mets', 'new york meats'],
+    ['abc', 'xabcyz'],
+    ['fuzzy wuzzy was a bear', 'wuzzy fuzzy was a bear'],
+    ['apple pie', 'the best apple pie recipe in town'],
+  ];
+  const scorers = {
+    partialRatio,
+    tokenSortRatio,
+    tokenSetRatio,
+    fuzzyTokenSetRatio: (s1: string, s2: string, scoreCutoff?: number): number =>
+      tokenSetRatio(s1, s2, scoreCutoff, { tokenMatchThreshold: 60 }),
+    partialTokenSortRatio,
+    partialTokenSetRatio,
+    tokenRatio,
+    partialTokenRatio,
+    weightedRatio,
+    customWeightedRatio: createWeightedRatio({
+      differentLengthRatio: 0.3,
+      different: { scorers: ['partial', 'partialTokenSort'], scales: { partialTokenSort: 0.9 } },
+    }),
+  };
+
+  for (const [name, scorer] of Object.entries(scorers)) {
+    it(`${name} should return the full score at or above the cutoff and 0 below it`, () => {
+      for (const [a, b] of pairs) {
+        const full = scorer(a, b);
+        expect(scorer(a, b, full)).toBe(full);
+        expect(scorer(a, b, 0)).toBe(full);
+        if (full < 100) {
+          expect(scorer(a, b, full + 0.01)).toBe(0);
+        }
+      }
+    });
+  }
 });
 
 describe('Tokenizer Utilities', () => {
@@ -149,6 +385,84 @@ describe('Tokenizer Utilities', () => {
     });
   });
 
+  describe('createTokenizer', () => {
+    it('should return tokenize without options', () => {
+      expect(createTokenizer()).toBe(tokenize);
+      expect(createTokenizer({ punctuation: 'keep' })).toBe(tokenize);
+    });
+
+    it('should split on custom delimiters', () => {
+      const split = createTokenizer({ delimiters: ' ./' });
+      expect(split('foo.bar/baz qux')).toEqual(['foo', 'bar', 'baz', 'qux']);
+      expect(split('foo-bar_baz')).toEqual(['foo-bar_baz']);
+    });
+
+    it('should split on or remove punctuation', () => {
+      expect(createTokenizer({ punctuation: 'split' })('foo.bar, (baz)')).toEqual([
+        'foo',
+        'bar',
+        'baz',
+      ]);
+      expect(createTokenizer({ punctuation: 'remove' })("don't stop!")).toEqual(['dont', 'stop']);
+      expect(createTokenizer()('foo.bar')).toEqual(['foo.bar']);
+    });
+
+    it('should split camelCase and PascalCase identifiers', () => {
+      const split = createTokenizer({ splitCamelCase: true });
+      expect(split('getUserName')).toEqual(['get', 'user', 'name']);
+      expect(split('HTTPServer')).toEqual(['http', 'server']);
+      expect(split('parseXMLDocument ID')).toEqual(['parse', 'xml', 'document', 'id']);
+      expect(split('ÉcoleNormale')).toEqual(['école', 'normale']);
+    });
+
+    it('should split at digit boundaries', () => {
+      const split = createTokenizer({ splitDigits: true });
+      expect(split('utf8 base64Encode')).toEqual(['utf', '8', 'base', '64', 'encode']);
+      expect(split('v2')).toEqual(['v', '2']);
+    });
+
+    it('should preserve case when asked', () => {
+      expect(createTokenizer({ preserveCase: true })('Hello World')).toEqual(['Hello', 'World']);
+      expect(createTokenizer({ preserveCase: true, splitCamelCase: true })('HTTPServer')).toEqual([
+        'HTTP',
+        'Server',
+      ]);
+    });
+
+    it('should combine options', () => {
+      const split = createTokenizer({
+        delimiters: ' ',
+        punctuation: 'split',
+        splitCamelCase: true,
+        splitDigits: true,
+      });
+      expect(split('src/utils/getHTTP2Client.ts')).toEqual([
+        'src',
+        'utils',
+        'get',
+        'http',
+        '2',
+        'client',
+        'ts',
+      ]);
+    });
+  });
+
+  describe('token ratios with a custom tokenizer', () => {
+    const tokenizer = createTokenizer({ punctuation: 'split', splitCamelCase: true });
+
+    it('should compare identifiers word by word', () => {
+      expect(tokenSortRatio('getUserName', 'name_user_get')).toBeLessThan(100);
+      expect(tokenSortRatio('getUserName', 'name_user_get', 0, { tokenizer })).toBe(100);
+      expect(tokenSetRatio('foo.bar/baz', 'baz bar', 0, { tokenizer })).toBe(100);
+    });
+
+    it('should pass the tokenizer through weightedRatio', () => {
+      expect(weightedRatio('UserName', 'user_name')).toBeLessThan(100);
+      expect(weightedRatio('UserName', 'user_name', 0, { tokenizer })).toBe(100);
+    });
+  });
+
   describe('sortTokens', () => {
     it('should sort tokens alphabetically', () => {
       expect(sortTokens(['world', 'hello'])).toBe('hello world');
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  osaDistance,
+  osaRatio,
+  damerauLevenshteinDistance,
+  damerauLevenshteinRatio,
+} from '../src/core/damerauLevenshtein';
+import { levenshteinDistance } from '../src/core/levenshtein';
+
+describe('osaDistance', () => {
+  it('should return 0 for identical strings', () => {
+    expect(osaDistance('hello', 'hello')).toBe(0);
+  });
+
+  it('should handle empty strings', () => {
+    expect(osaDistance('', '')).toBe(0);
+    expect(osaDistance('abc', '')).toBe(3);
+    expect(osaDistance('', 'abc')).toBe(3);
+  });
+
+  it('should count an adjacent transposition as one edit', () => {
+    expect(osaDistance('teh', 'the')).toBe(1);
+    expect(osaDistance('ab', 'ba')).toBe(1);
+    expect(levenshteinDistance('teh', 'the')).toBe(2);
+  });
+
+  it('should not edit a transposed substring twice', () => {
+    expect(osaDistance('ca', 'abc')).toBe(3);
+  });
+
+  it('should match Levenshtein when no transpositions are involved', () => {
+    expect(osaDistance('kitten', 'sitting')).toBe(3);
+    expect(osaDistance('abc', 'def')).toBe(3);
+  });
+
+  it('should be symmetric', () => {
+    expect(osaDistance('receive', 'recieve')).toBe(osaDistance('recieve', 'receive'));
+  });
+});
+
+describe('damerauLevenshteinDistance', () => {
+  it('should return 0 for identical strings', () => {
+    expect(damerauLevenshteinDistance('hello', 'hello')).toBe(0);
+  });
+
+  it('should handle empty strings', () => {
+    expect(damerauLevenshteinDistance('', '')).toBe(0);
+    expect(damerauLevenshteinDistance('abc', '')).toBe(3);
+    expect(damerauLevenshteinDistance('', 'abc')).toBe(3);
+  });
+
+  it('should count an adjacent transposition as one edit', () => {
+    expect(damerauLevenshteinDistance('teh', 'the')).toBe(1);
+  });
+
+  it('should allow edits between transposed characters', () => {
+    expect(damerauLevenshteinDistance('ca', 'abc')).toBe(2);
+  });
+
+  it('should match Levenshtein when no transpositions are involved', () => {
+    expect(damerauLevenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(damerauLevenshteinDistance('abc', 'def')).toBe(3);
+  });
+
+  it('should never exceed OSA distance', () => {
+    const pairs: Array<[string, string]> = [
+      ['abcdef', 'badcfe'],
+      ['a cat', 'an act'],
+      ['specter', 'spectre'],
+    ];
+    for (const [a, b] of pairs) {
+      expect(damerauLevenshteinDistance(a, b)).toBeLessThanOrEqual(osaDistance(a, b));
+    }
+  });
+});
+
+describe('osaRatio and damerauLevenshteinRatio', () => {
+  it('should return 100 for identical strings', () => {
+    expect(osaRatio('hello', 'hello')).toBe(100);
+    expect(damerauLevenshteinRatio('hello', 'hello')).toBe(100);
+    expect(osaRatio('', '')).toBe(100);
+  });
+
+  it('should return 0 for completely different strings', () => {
+    expect(osaRatio('abc', 'def')).toBe(0);
+    expect(damerauLevenshteinRatio('abc', '')).toBe(0);
+  });
+
+  it('should score transpositions higher than Levenshtein ratio', () => {
+    expect(osaRatio('teh', 'the')).toBeCloseTo(66.67, 1);
+    expect(damerauLevenshteinRatio('recieve', 'receive')).toBeCloseTo(85.71, 1);
+  });
+
+  it('should honour scoreCutoff', () => {
+    const pairs: Array<[string, string]> = [
+      ['recieve', 'receive'],
+      ['kitten', 'sitting'],
+      ['ca', 'abc'],
+      ['abcdef', 'badcfe'],
+      ['hello world', 'wrold hello'],
+    ];
+    for (const [a, b] of pairs) {
+      for (const ratio of [osaRatio, damerauLevenshteinRatio]) {
+        const score = ratio(a, b);
+        expect(ratio(a, b, score)).toBe(score);
+        expect(ratio(a, b, score + 0.01)).toBe(0);
+      }
+    }
+  });
+});
+
+describe('maxDistance', () => {
+  it('should return the exact distance within the bound', () => {
+    expect(osaDistance('kitten', 'sitting', 3)).toBe(3);
+    expect(damerauLevenshteinDistance('ca', 'abc', 2)).toBe(2);
+  });
+
+  it('should return maxDistance + 1 beyond the bound', () => {
+    expect(osaDistance('kitten', 'sitting', 2)).toBe(3);
+    expect(osaDistance('abcdefgh', 'stuvwxyz', 1)).toBe(2);
+    expect(osaDistance('a', 'abcdef', 2)).toBe(3);
+    expect(damerauLevenshteinDistance('abcdefgh', 'stuvwxyz', 1)).toBe(2);
+    expect(damerauLevenshteinDistance('ca', 'abc', 1)).toBe(2);
+  });
+
+  it('should agree with the unbounded distance', () => {
+    const words = ['', 'a', 'ab', 'ba', 'abc', 'cab', 'acb', 'abcd', 'badc', 'dcba', 'ca'];
+    for (const a of words) {
+      for (const b of words) {
+        for (const distance of [osaDistance, damerauLevenshteinDistance]) {
+          const exact = distance(a, b);
+          for (let max = 0; max <= 4; max++) {
+            expect(distance(a, b, max)).toBe(exact <= max ? exact : max + 1);
+          }
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  editops,
+  opcodes,
+  editopsToOpcodes,
+  applyEditops,
+  applyOpcodes,
+  invertEditops,
+  invertOpcodes,
+} from '../src/core/editops';
+import { levenshteinDistance } from '../src/core/levenshtein';
+
+const pairs: Array<[string, string]> = [
+  ['', ''],
+  ['', 'abc'],
+  ['abc', ''],
+  ['kitten', 'sitting'],
+  ['qabxcd', 'abycdf'],
+  ['lewenstein', 'levenshtein'],
+  ['hello world', 'hello world'],
+  ['abcdef', 'fedcba'],
+  ['aaaa', 'aa'],
+];
+
+describe('editops', () => {
+  it('should return an empty list for identical strings', () => {
+    expect(editops('hello', 'hello')).toEqual([]);
+  });
+
+  it('should describe the edits from kitten to sitting', () => {
+    expect(editops('kitten', 'sitting')).toEqual([
+      { type: 'replace', sourcePos: 0, destPos: 0 },
+      { type: 'replace', sourcePos: 4, destPos: 4 },
+      { type: 'insert', sourcePos: 6, destPos: 6 },
+    ]);
+  });
+
+  it('should report insertions and deletions against empty strings', () => {
+    expect(editops('', 'ab')).toEqual([
+      { type: 'insert', sourcePos: 0, destPos: 0 },
+      { type: 'insert', sourcePos: 0, destPos: 1 },
+    ]);
+    expect(editops('ab', '')).toEqual([
+      { type: 'delete', sourcePos: 0, destPos: 0 },
+      { type: 'delete', sourcePos: 1, destPos: 0 },
+    ]);
+  });
+
+  it('should always contain levenshteinDistance operations', () => {
+    for (const [a, b] of pairs) {
+      expect(editops(a, b)).toHaveLength(levenshteinDistance(a, b));
+    }
+  });
+
+  it('should reproduce the destination when applied', () => {
+    for (const [a, b] of pairs) {
+      expect(applyEditops(editops(a, b), a, b)).toBe(b);
+    }
+  });
+
+  it('should reproduce the source when inverted and applied', () => {
+    for (const [a, b] of pairs) {
+      expect(applyEditops(invertEditops(editops(a, b)), b, a)).toBe(a);
+    }
+  });
+
+  it('should apply a subset of operations', () => {
+    const ops = editops('kitten', 'sitting');
+    expect(applyEditops(ops.slice(0, 1), 'kitten', 'sitting')).toBe('sitten');
+  });
+});
+
+describe('opcodes', () => {
+  it('should cover both strings including equal ranges', () => {
+    expect(opcodes('kitten', 'sitting')).toEqual([
+      { type: 'replace', sourceStart: 0, sourceEnd: 1, destStart: 0, destEnd: 1 },
+      { type: 'equal', sourceStart: 1, sourceEnd: 4, destStart: 1, destEnd: 4 },
+      { type: 'replace', sourceStart: 4, sourceEnd: 5, destStart: 4, destEnd: 5 },
+      { type: 'equal', sourceStart: 5, sourceEnd: 6, destStart: 5, destEnd: 6 },
+      { type: 'insert', sourceStart: 6, sourceEnd: 6, destStart: 6, destEnd: 7 },
+    ]);
+  });
+
+  it('should return a single equal range for identical strings', () => {
+    expect(opcodes('abc', 'abc')).toEqual([
+      { type: 'equal', sourceStart: 0, sourceEnd: 3, destStart: 0, destEnd: 3 },
+    ]);
+    expect(opcodes('', '')).toEqual([]);
+  });
+
+  it('should merge consecutive operations of the same type', () => {
+    expect(opcodes('', 'abc')).toEqual([
+      { type: 'insert', sourceStart: 0, sourceEnd: 0, destStart: 0, destEnd: 3 },
+    ]);
+  });
+
+  it('should be contiguous and reproduce both strings', () => {
+    for (const [a, b] of pairs) {
+      const ops = opcodes(a, b);
+      let src = 0;
+      let dest = 0;
+      for (const op of ops) {
+        expect(op.sourceStart).toBe(src);
+        expect(op.destStart).toBe(dest);
+        src = op.sourceEnd;
+        dest = op.destEnd;
+      }
+      expect(src).toBe(a.length);
+      expect(dest).toBe(b.length);
+      expect(applyOpcodes(ops, a, b)).toBe(b);
+      expect(applyOpcodes(invertOpcodes(ops), b, a)).toBe(a);
+    }
+  });
+
+  it('should match editopsToOpcodes', () => {
+    expect(opcodes('qabxcd', 'abycdf')).toEqual(
+      editopsToOpcodes(editops('qabxcd', 'abycdf'), 6, 6)
+    );
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { extract, extractOne } from '../src/process';
-import { ratio } from '../src/scorers';
+import { ratio, smithWatermanRatio } from '../src/scorers';
 
 describe('extract', () => {
   const choices = ['apple', 'banana', 'orange', 'grape', 'pineapple'];
@@ -36,6 +36,34 @@ describe('extract', () => {
       expect(prev.score).toBeGreaterThanOrEqual(curr.score);
     }
   });
+
+  it('should drop choices below scoreCutoff', () => {
+    const results = extract('apple', choices, undefined, 5, 80);
+    expect(results.length).toBeGreaterThan(0);
+    for (const result of results) {
+      expect(result.score).toBeGreaterThanOrEqual(80);
+    }
+  });
+
+  it('should pass the heap minimum to the scorer once the heap is full', () => {
+    const many = Array.from({ length: 50 }, (_, i) => `apple ${i}`);
+    const cutoffs: number[] = [];
+    const scorer = (s1: string, s2: string, _p?: unknown, scoreCutoff?: number): number => {
+      cutoffs.push(scoreCutoff ?? 0);
+      return ratio(s1, s2);
+    };
+    extract('apple 1', many, scorer, 3);
+    expect(cutoffs[0]).toBe(0);
+    expect(Math.max(...cutoffs)).toBeGreaterThan(0);
+  });
+
+  it('should return the same results with and without pruning', () => {
+    const many = Array.from({ length: 200 }, (_, i) => `item number ${i * 7}`);
+    const unpruned = (s1: string, s2: string): number => ratio(s1, s2);
+    expect(extract('item number 42', many, ratio, 5)).toEqual(
+      extract('item number 42', many, unpruned, 5)
+    );
+  });
 });
 
 describe('extractOne', () => {
@@ -57,4 +85,17 @@ describe('extractOne', () => {
     const result = extractOne('app', choices, ratio);
     expect(result).not.toBeNull();
   });
+
+  it('should return null when no choice reaches scoreCutoff', () => {
+    expect(extractOne('xyz', choices, ratio, 90)).toBeNull();
+    expect(extractOne('apple', choices, ratio, 90)?.choice).toBe('apple');
+  });
+});
+
+describe('extract with alignment scorers', () => {
+  it('should find gapped needles with smithWatermanRatio', () => {
+    const choices = ['a haystack', 'the nexedle here', 'nothing to see'];
+    const result = extractOne('needle', choices, smithWatermanRatio);
+    expect(result?.choice).toBe('the nexedle here');
+  });
 });
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { mongeElkanRatio as coreMongeElkanRatio, createSoftTfIdf } from '../src/core/hybrid';
+import { jaroWinkler } from '../src/core/jaro';
+import { levenshteinRatio } from '../src/core/levenshtein';
+import { tokenSortRatio } from '../src/core/tokenSortRatio';
+import { mongeElkanRatio, ratio, jaroWinklerRatio } from '../src/scorers';
+import { createSoftTfIdfScorer } from '../src/builders';
+import { extractOne } from '../src/process';
+
+describe('mongeElkanRatio', () => {
+  it('should tolerate reordered tokens with typos better than tokenSortRatio', () => {
+    const score = coreMongeElkanRatio('jon smiht', 'smith john');
+    expect(score).toBeGreaterThan(90);
+    expect(score).toBeGreaterThan(tokenSortRatio('jon smiht', 'smith john'));
+  });
+
+  it('should average the best match of each token', () => {
+    const expected = (jaroWinkler('jon', 'john') * 100 + jaroWinkler('smiht', 'smith') * 100) / 2;
+    expect(coreMongeElkanRatio('jon smiht', 'john smith', 0, { symmetric: false })).toBeCloseTo(
+      expected
+    );
+  });
+
+  it('should support asymmetric and symmetric variants', () => {
+    // Every token of "smith" is found in the longer string, but not the other way round
+    expect(coreMongeElkanRatio('smith', 'john smith', 0, { symmetric: false })).toBe(100);
+    expect(coreMongeElkanRatio('john smith', 'smith', 0, { symmetric: false })).toBeLessThan(100);
+    expect(coreMongeElkanRatio('smith', 'john smith')).toBeCloseTo(
+      (100 + coreMongeElkanRatio('john smith', 'smith', 0, { symmetric: false })) / 2
+    );
+  });
+
+  it('should accept any ScorerFunction as the inner similarity', () => {
+    const withRatio = coreMongeElkanRatio('jon smiht', 'john smith', 0, {
+      similarity: ratio,
+      symmetric: false,
+    });
+    expect(withRatio).toBeCloseTo(
+      (levenshteinRatio('jon', 'john') + levenshteinRatio('smiht', 'smith')) / 2
+    );
+    expect(coreMongeElkanRatio('jon', 'john', 0, { similarity: jaroWinklerRatio })).toBeCloseTo(
+      jaroWinkler('jon', 'john') * 100
+    );
+  });
+
+  it('should handle empty strings and the cutoff', () => {
+    expect(coreMongeElkanRatio('', '')).toBe(100);
+    expect(coreMongeElkanRatio('john', '')).toBe(0);
+    const score = coreMongeElkanRatio('jon smiht', 'smith john');
+    expect(coreMongeElkanRatio('jon smiht', 'smith john', score)).toBe(score);
+    expect(coreMongeElkanRatio('jon smiht', 'smith john', score + 0.01)).toBe(0);
+  });
+
+  it('should apply the default processor in the scorer', () => {
+    expect(mongeElkanRatio('  SMITH, John', 'john smith,')).toBeCloseTo(
+      coreMongeElkanRatio('smith, john', 'john smith,')
+    );
+  });
+});
+
+describe('createSoftTfIdf', () => {
+  const companies = ['acme corp', 'acme inc', 'globex corp', 'initech corp', 'umbrella corp'];
+
+  it('should return 100 for identical strings and 0 without similar tokens', () => {
+    const softTfIdf = createSoftTfIdf(companies);
+    expect(softTfIdf('acme corp', 'acme corp')).toBeCloseTo(100);
+    expect(softTfIdf('acme corp', 'stark industries')).toBe(0);
+    expect(softTfIdf('', '')).toBe(100);
+    expect(softTfIdf('acme', '')).toBe(0);
+  });
+
+  it('should weight rare tokens above common ones', () => {
+    const softTfIdf = createSoftTfIdf(companies);
+    // "acme" is rarer than "corp" in the corpus
+    expect(softTfIdf('acme corp', 'acme inc')).toBeGreaterThan(
+      softTfIdf('acme corp', 'globex corp')
+    );
+  });
+
+  it('should match tokens with typos', () => {
+    const softTfIdf = createSoftTfIdf(companies);
+    expect(softTfIdf('acme crop', 'acme corp')).toBeGreaterThan(80);
+    expect(softTfIdf('acme crop', 'acme corp', 0)).toBeGreaterThan(
+      createSoftTfIdf(companies, { threshold: 100 })('acme crop', 'acme corp')
+    );
+  });
+
+  it('should accept a custom inner similarity', () => {
+    const softTfIdf = createSoftTfIdf(companies, { similarity: ratio, threshold: 50 });
+    expect(softTfIdf('acme crop', 'acme corp')).toBeGreaterThan(0);
+  });
+
+  it('should apply the cutoff', () => {
+    const softTfIdf = createSoftTfIdf(companies);
+    const score = softTfIdf('acme crop', 'acme corp');
+    expect(softTfIdf('acme crop', 'acme corp', score)).toBe(score);
+    expect(softTfIdf('acme crop', 'acme corp', score + 0.01)).toBe(0);
+  });
+});
+
+describe('createSoftTfIdfScorer', () => {
+  it('should create a ScorerFunction usable with extract', () => {
+    const choices = ['Acme Corp', 'Globex Corp', 'Initech Corp', 'Umbrella Corp'];
+    const scorer = createSoftTfIdfScorer(choices);
+    expect(extractOne('ACME crop', choices, scorer)?.choice).toBe('Acme Corp');
+    expect(scorer('Globex Corp', 'globex corp')).toBeCloseTo(100);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  lcsSeqLength,
+  indelDistance,
+  indelNormalizedSimilarity,
+  indelRatio,
+} from '../src/core/indel';
+import { levenshteinRatio } from '../src/core/levenshtein';
+import { tokenSortRatio } from '../src/core/tokenSortRatio';
+import { weightedRatio } from '../src/core/weightedRatio';
+import { ratio, WRatio } from '../src/scorers';
+import { createScorer, scorerBuilder } from '../src/builders';
+
+function referenceLcs(s1: string, s2: string): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= s1.length; i++) {
+    rows.push(new Array<number>(s2.length + 1).fill(0));
+  }
+  for (let i = 1; i <= s1.length; i++) {
+    for (let j = 1; j <= s2.length; j++) {
+      const row = rows[i] as number[];
+      const prev = rows[i - 1] as number[];
+      row[j] =
+        s1[i - 1] === s2[j - 1] ? (prev[j - 1] ?? 0) + 1 : Math.max(prev[j] ?? 0, row[j - 1] ?? 0);
+    }
+  }
+  return rows[s1.length]?.[s2.length] ?? 0;
+}
+
+describe('lcsSeqLength', () => {
+  it('should handle empty and identical strings', () => {
+    expect(lcsSeqLength('', '')).toBe(0);
+    expect(lcsSeqLength('abc', '')).toBe(0);
+    expect(lcsSeqLength('abc', 'abc')).toBe(3);
+  });
+
+  it('should find the longest common subsequence', () => {
+    expect(lcsSeqLength('kitten', 'sitting')).toBe(4);
+    expect(lcsSeqLength('ABCBDAB', 'BDCABA')).toBe(4);
+  });
+
+  it('should match a reference DP across word boundaries', () => {
+    let seed = 7;
+    const random = (): number => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+    const randomString = (length: number): string =>
+      Array.from({ length }, () => 'abcd'[Math.floor(random() * 4)]).join('');
+
+    for (const [len1, len2] of [
+      [5, 9],
+      [31, 40],
+      [32, 32],
+      [33, 70],
+      [64, 65],
+      [100, 90],
+    ] as const) {
+      const s1 = randomString(len1);
+      const s2 = randomString(len2);
+      expect(lcsSeqLength(s1, s2)).toBe(referenceLcs(s1, s2));
+    }
+  });
+});
+
+describe('indelDistance', () => {
+  it('should count a substitution as two edits', () => {
+    expect(indelDistance('abc', 'abd')).toBe(2);
+    expect(indelDistance('abc', 'ab')).toBe(1);
+    expect(indelDistance('', 'abc')).toBe(3);
+  });
+});
+
+describe('indelNormalizedSimilarity', () => {
+  it('should return 1 for empty strings', () => {
+    expect(indelNormalizedSimilarity('', '')).toBe(1);
+  });
+
+  it('should normalize by the combined length', () => {
+    expect(indelNormalizedSimilarity('kitten', 'sitting')).toBeCloseTo(8 / 13, 10);
+  });
+});
+
+describe('indelRatio', () => {
+  it('should reproduce RapidFuzz fuzz.ratio', () => {
+    expect(indelRatio('this is a test', 'this is a test!')).toBeCloseTo(96.5517, 3);
+    expect(indelRatio('fuzzy wuzzy was a bear', 'wuzzy fuzzy was a bear')).toBeCloseTo(90.9091, 3);
+  });
+
+  it('should differ from the Levenshtein ratio', () => {
+    expect(indelRatio('kitten', 'sitting')).toBeCloseTo(61.5385, 3);
+    expect(levenshteinRatio('kitten', 'sitting')).toBeCloseTo(57.1429, 3);
+  });
+
+  it('should return 0 below the score cutoff', () => {
+    expect(indelRatio('kitten', 'sitting', 70)).toBe(0);
+    expect(indelRatio('a', 'abcdefgh', 50)).toBe(0);
+    expect(indelRatio('kitten', 'sitting', 60)).toBeCloseTo(61.5385, 3);
+  });
+});
+
+describe('indel ratio mode', () => {
+  it('should apply to the core composite scorers', () => {
+    expect(tokenSortRatio('new york mets', 'new yorks mets', 0, { mode: 'indel' })).toBeCloseTo(
+      indelRatio('mets new york', 'mets new yorks'),
+      10
+    );
+    expect(weightedRatio('kitten', 'sitting', 0, { mode: 'indel' })).toBeCloseTo(61.5385, 3);
+  });
+
+  it('should be selectable on scorers', () => {
+    expect(ratio('this is a test', 'this is a test!', undefined, 0, { mode: 'indel' })).toBeCloseTo(
+      96.5517,
+      3
+    );
+    expect(WRatio('kitten', 'sitting', undefined, 0, { mode: 'indel' })).toBeCloseTo(61.5385, 3);
+  });
+
+  it('should be selectable through createScorer and ScorerBuilder', () => {
+    const simple = createScorer({ algorithm: 'simple', ratioMode: 'indel' });
+    expect(simple('kitten', 'sitting')).toBeCloseTo(61.5385, 3);
+
+    const weighted = scorerBuilder().withRatioMode('indel').build();
+    expect(weighted('kitten', 'sitting')).toBeCloseTo(61.5385, 3);
+  });
+});
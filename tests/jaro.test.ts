@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { jaro, jaroWinkler } from '../src/core/jaro';
+
+describe('jaro', () => {
+  it('should return 1 for identical strings', () => {
+    expect(jaro('martha', 'martha')).toBe(1);
+    expect(jaro('', '')).toBe(1);
+  });
+
+  it('should return 0 when one string is empty', () => {
+    expect(jaro('abc', '')).toBe(0);
+    expect(jaro('', 'abc')).toBe(0);
+  });
+
+  it('should return 0 when no characters match', () => {
+    expect(jaro('abc', 'xyz')).toBe(0);
+  });
+
+  it('should match reference values', () => {
+    expect(jaro('MARTHA', 'MARHTA')).toBeCloseTo(0.9444, 4);
+    expect(jaro('DWAYNE', 'DUANE')).toBeCloseTo(0.8222, 4);
+    expect(jaro('DIXON', 'DICKSONX')).toBeCloseTo(0.7667, 4);
+  });
+
+  it('should be symmetric', () => {
+    expect(jaro('DWAYNE', 'DUANE')).toBeCloseTo(jaro('DUANE', 'DWAYNE'), 10);
+  });
+});
+
+describe('jaroWinkler', () => {
+  it('should return 1 for identical strings', () => {
+    expect(jaroWinkler('martha', 'martha')).toBe(1);
+  });
+
+  it('should match reference values', () => {
+    expect(jaroWinkler('MARTHA', 'MARHTA')).toBeCloseTo(0.9611, 4);
+    expect(jaroWinkler('DWAYNE', 'DUANE')).toBeCloseTo(0.84, 4);
+    expect(jaroWinkler('DIXON', 'DICKSONX')).toBeCloseTo(0.8133, 4);
+  });
+
+  it('should honour a custom prefix scale', () => {
+    const base = jaro('MARTHA', 'MARHTA');
+    expect(jaroWinkler('MARTHA', 'MARHTA', { prefixScale: 0 })).toBe(base);
+    expect(jaroWinkler('MARTHA', 'MARHTA', { prefixScale: 0.2 })).toBeGreaterThan(
+      jaroWinkler('MARTHA', 'MARHTA')
+    );
+  });
+
+  it('should not boost below the threshold', () => {
+    const base = jaro('DIXON', 'DICKSONX');
+    expect(jaroWinkler('DIXON', 'DICKSONX', { boostThreshold: 0.8 })).toBe(base);
+  });
+
+  it('should limit the prefix length', () => {
+    const base = jaro('MARTHA', 'MARHTA');
+    expect(jaroWinkler('MARTHA', 'MARHTA', { maxPrefixLength: 1 })).toBeCloseTo(
+      base + 0.1 * (1 - base),
+      10
+    );
+  });
+
+  it('should reject prefix scales that could exceed 1', () => {
+    expect(() => jaroWinkler('a', 'b', { prefixScale: 0.3 })).toThrow();
+    expect(() => jaroWinkler('a', 'b', { prefixScale: -0.1 })).toThrow();
+    expect(() => jaroWinkler('a', 'b', { prefixScale: 0.25, maxPrefixLength: 8 })).toThrow(
+      'prefixScale must be non-negative and prefixScale * maxPrefixLength at most 1'
+    );
+  });
+
+  it('should stay within 1 for longer prefixes with a smaller scale', () => {
+    const similarity = jaroWinkler('abcdefgx', 'abcdefgy', {
+      prefixScale: 0.125,
+      maxPrefixLength: 8,
+    });
+    expect(similarity).toBeLessThanOrEqual(1);
+    expect(similarity).toBeGreaterThan(jaroWinkler('abcdefgx', 'abcdefgy'));
+  });
+});
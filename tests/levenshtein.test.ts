@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { levenshteinDistance, levenshteinRatio } from '../src/core/levenshtein';
+import {
+  levenshteinDistance,
+  levenshteinRatio,
+  weightedLevenshteinDistance,
+  weightedLevenshteinRatio,
+} from '../src/core/levenshtein';
 
 describe('levenshteinDistance', () => {
   it('should return 0 for identical strings', () => {
@@ -26,6 +31,80 @@ describe('levenshteinDistance', () => {
   });
 });
 
+describe('levenshteinDistance bit-parallel implementation', () => {
+  // Straightforward O(m*n) DP used as the reference implementation
+  function referenceDistance(a: string, b: string): number {
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const curr = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        curr[j] = Math.min((curr[j - 1] ?? 0) + 1, (prev[j] ?? 0) + 1, (prev[j - 1] ?? 0) + cost);
+      }
+      prev = curr;
+    }
+    return prev[b.length] ?? 0;
+  }
+
+  function pseudoRandomString(seed: number, length: number, alphabet: string): string {
+    let state = seed;
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      state = (state * 1103515245 + 12345) & 0x7fffffff;
+      result += alphabet[state % alphabet.length] ?? '';
+    }
+    return result;
+  }
+
+  it('should handle patterns at word boundaries', () => {
+    for (const len of [31, 32, 33, 63, 64, 65, 128]) {
+      const a = pseudoRandomString(len, len, 'abcd');
+      const b = pseudoRandomString(len * 7, len + 3, 'abcd');
+      expect(levenshteinDistance(a, b)).toBe(referenceDistance(a, b));
+    }
+  });
+
+  it('should match the reference DP on random strings', () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const a = pseudoRandomString(seed, seed % 90, 'abcde');
+      const b = pseudoRandomString(seed * 31, (seed * 7) % 90, 'abcde');
+      expect(levenshteinDistance(a, b)).toBe(referenceDistance(a, b));
+    }
+  });
+
+  it('should handle characters outside the ASCII range', () => {
+    expect(levenshteinDistance('café', 'cafe')).toBe(1);
+    expect(levenshteinDistance('日本語', '日本人')).toBe(1);
+    const long1 = '日本語'.repeat(20);
+    const long2 = '日本人'.repeat(20);
+    expect(levenshteinDistance(long1, long2)).toBe(referenceDistance(long1, long2));
+  });
+
+  it('should not leak state between calls', () => {
+    expect(levenshteinDistance('abc', 'xyz')).toBe(3);
+    expect(levenshteinDistance('xyz', 'xyz!')).toBe(1);
+    expect(levenshteinDistance('abc', 'xyz')).toBe(3);
+  });
+});
+
+describe('levenshteinDistance with maxDistance', () => {
+  it('should return the exact distance within the bound', () => {
+    expect(levenshteinDistance('kitten', 'sitting', 3)).toBe(3);
+    expect(levenshteinDistance('kitten', 'sitting', 10)).toBe(3);
+  });
+
+  it('should return maxDistance + 1 beyond the bound', () => {
+    expect(levenshteinDistance('kitten', 'sitting', 2)).toBe(3);
+    expect(levenshteinDistance('abc', 'defgh', 1)).toBe(2);
+    expect(levenshteinDistance('a'.repeat(100), 'b'.repeat(100), 5)).toBe(6);
+  });
+
+  it('should allow a zero bound', () => {
+    expect(levenshteinDistance('abc', 'abc', 0)).toBe(0);
+    expect(levenshteinDistance('abc', 'abd', 0)).toBe(1);
+  });
+});
+
 describe('levenshteinRatio', () => {
   it('should return 100 for identical strings', () => {
     expect(levenshteinRatio('hello', 'hello')).toBe(100);
@@ -46,3 +125,86 @@ describe('levenshteinRatio', () => {
     expect(ratio).toBeLessThan(100);
   });
 });
+
+describe('levenshteinRatio with scoreCutoff', () => {
+  it('should return the score when it reaches the cutoff', () => {
+    const full = levenshteinRatio('kitten', 'sitting');
+    expect(levenshteinRatio('kitten', 'sitting', full)).toBe(full);
+    expect(levenshteinRatio('kitten', 'sitting', 50)).toBe(full);
+  });
+
+  it('should return 0 below the cutoff', () => {
+    expect(levenshteinRatio('kitten', 'sitting', 80)).toBe(0);
+  });
+
+  it('should still return 100 for identical strings', () => {
+    expect(levenshteinRatio('hello', 'hello', 100)).toBe(100);
+  });
+});
+
+describe('weightedLevenshteinDistance', () => {
+  it('should match levenshteinDistance with unit costs', () => {
+    expect(weightedLevenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(weightedLevenshteinDistance('', 'abc')).toBe(3);
+  });
+
+  it('should apply separate insertion and deletion weights', () => {
+    expect(weightedLevenshteinDistance('abc', 'abcd', { insertion: 2 })).toBe(2);
+    expect(weightedLevenshteinDistance('abcd', 'abc', { deletion: 3 })).toBe(3);
+    expect(weightedLevenshteinDistance('', 'abc', { insertion: 0.5 })).toBe(1.5);
+  });
+
+  it('should prefer insert + delete when substitution is expensive', () => {
+    expect(weightedLevenshteinDistance('abc', 'abd', { substitution: 5 })).toBe(2);
+    expect(weightedLevenshteinDistance('abc', 'abd', { substitution: 0.5 })).toBe(0.5);
+  });
+
+  it('should use the per-pair substitution cost function', () => {
+    const substitutionCost = (from: string, to: string): number =>
+      from === '0' && to === 'o' ? 0.1 : 1;
+    expect(weightedLevenshteinDistance('f00', 'foo', { substitutionCost })).toBeCloseTo(0.2, 10);
+    expect(weightedLevenshteinDistance('foo', 'f00', { substitutionCost })).toBe(2);
+  });
+
+  it('should reject negative costs', () => {
+    expect(() => weightedLevenshteinDistance('a', 'b', { insertion: -1 })).toThrow();
+  });
+});
+
+describe('weightedLevenshteinRatio', () => {
+  it('should match levenshteinRatio with unit costs', () => {
+    expect(weightedLevenshteinRatio('kitten', 'sitting')).toBeCloseTo(
+      levenshteinRatio('kitten', 'sitting'),
+      10
+    );
+  });
+
+  it('should return 100 for identical strings and 0 for maximal distance', () => {
+    expect(weightedLevenshteinRatio('abc', 'abc', { insertion: 3 })).toBe(100);
+    expect(weightedLevenshteinRatio('abc', '', { deletion: 2 })).toBe(0);
+  });
+
+  it('should rank substitutions above insertions when substitutions are cheap', () => {
+    const costs = { substitution: 0.25 };
+    expect(levenshteinRatio('abcd', 'abxd')).toBe(levenshteinRatio('abcd', 'abd'));
+    expect(weightedLevenshteinRatio('abcd', 'abxd', costs)).toBeGreaterThan(
+      weightedLevenshteinRatio('abcd', 'abd', costs)
+    );
+  });
+
+  it('should compare by the given unit', () => {
+    const costs = { substitution: 0.5 };
+    // By code unit, the combining accent is an extra character
+    expect(weightedLevenshteinDistance('cafe\u0301', 'cafe', costs)).toBe(1);
+    expect(weightedLevenshteinDistance('cafe\u0301', 'cafe', costs, 'grapheme')).toBe(0.5);
+    expect(weightedLevenshteinRatio('\u{1f600}ab', 'xab', costs, 0, 'codePoint')).toBeCloseTo(
+      (1 / 1.5) * 100,
+      10
+    );
+  });
+
+  it('should honour scoreCutoff', () => {
+    const score = weightedLevenshteinRatio('abcd', 'abxd', { substitution: 2 });
+    expect(weightedLevenshteinRatio('abcd', 'abxd', { substitution: 2 }, score + 1)).toBe(0);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  soundex,
+  refinedSoundex,
+  metaphone,
+  nysiis,
+  phoneticEncode,
+  phoneticRatio,
+} from '../src/core/phonetic';
+import { doubleMetaphone } from '../src/core/doubleMetaphone';
+
+describe('soundex', () => {
+  it('should match reference codes', () => {
+    expect(soundex('Robert')).toBe('R163');
+    expect(soundex('Rupert')).toBe('R163');
+    expect(soundex('Ashcraft')).toBe('A261');
+    expect(soundex('Tymczak')).toBe('T522');
+    expect(soundex('Pfister')).toBe('P236');
+    expect(soundex('Honeyman')).toBe('H555');
+    expect(soundex('Lee')).toBe('L000');
+  });
+
+  it('should encode spelling variants alike', () => {
+    expect(soundex('Smith')).toBe(soundex('Smyth'));
+  });
+
+  it('should ignore non-letters', () => {
+    expect(soundex("O'Hara")).toBe('O600');
+    expect(soundex('123')).toBe('');
+  });
+});
+
+describe('refinedSoundex', () => {
+  it('should match reference codes', () => {
+    expect(refinedSoundex('testing')).toBe('T6036084');
+    expect(refinedSoundex('The')).toBe('T60');
+    expect(refinedSoundex('quick')).toBe('Q503');
+    expect(refinedSoundex('brown')).toBe('B1908');
+    expect(refinedSoundex('fox')).toBe('F205');
+    expect(refinedSoundex('jumped')).toBe('J408106');
+    expect(refinedSoundex('lazy')).toBe('L7050');
+  });
+});
+
+describe('metaphone', () => {
+  it('should match reference codes', () => {
+    expect(metaphone('Smith')).toBe('SM0');
+    expect(metaphone('Knight')).toBe('NT');
+    expect(metaphone('Thumb')).toBe('0M');
+    expect(metaphone('Xavier')).toBe('SFR');
+    expect(metaphone('Wright')).toBe('RT');
+    expect(metaphone('Philip')).toBe('FLP');
+  });
+
+  it('should encode spelling variants alike', () => {
+    expect(metaphone('Smith')).toBe(metaphone('Smyth'));
+  });
+
+  it('should truncate to the maximum length', () => {
+    expect(metaphone('Christopherson')).toHaveLength(4);
+    expect(metaphone('Christopherson', 10).length).toBeGreaterThan(4);
+  });
+});
+
+describe('doubleMetaphone', () => {
+  it('should match reference codes', () => {
+    expect(doubleMetaphone('Smith')).toEqual(['SM0', 'XMT']);
+    expect(doubleMetaphone('Schmidt')).toEqual(['XMT', 'SMT']);
+    expect(doubleMetaphone('Michael')).toEqual(['MKL', 'MXL']);
+    expect(doubleMetaphone('Jose')).toEqual(['HS', 'HS']);
+    expect(doubleMetaphone('Arnow')).toEqual(['ARN', 'ARNF']);
+    expect(doubleMetaphone('Xavier')).toEqual(['SF', 'SFR']);
+    expect(doubleMetaphone('Gallegos')).toEqual(['KLKS', 'KKS']);
+  });
+
+  it('should match names through primary or alternate codes', () => {
+    expect(doubleMetaphone('Catherine')).toEqual(doubleMetaphone('Kathryn'));
+    expect(doubleMetaphone('Smith')[0]).toBe(doubleMetaphone('Smyth')[0]);
+  });
+
+  it('should return empty codes without letters', () => {
+    expect(doubleMetaphone('')).toEqual(['', '']);
+  });
+});
+
+describe('nysiis', () => {
+  it('should match reference codes', () => {
+    expect(nysiis('Catherine')).toBe('CATARA');
+    expect(nysiis('Kathryn')).toBe('CATRYN');
+    expect(nysiis('Macintosh')).toBe('MCANT');
+    expect(nysiis('Knuth')).toBe('NAT');
+    expect(nysiis('Phillipson')).toBe('FALAPS');
+  });
+
+  it('should encode spelling variants alike', () => {
+    expect(nysiis('Knight')).toBe(nysiis('Night'));
+  });
+});
+
+describe('phoneticEncode', () => {
+  it('should encode each word separately', () => {
+    expect(phoneticEncode('John Smith', 'soundex')).toBe('J500 S530');
+    expect(phoneticEncode('John Smith', 'doubleMetaphone')).toBe('JN SM0');
+  });
+});
+
+describe('phoneticRatio', () => {
+  it('should score homophones as identical', () => {
+    expect(phoneticRatio('Smith', 'Smyth')).toBe(100);
+    expect(phoneticRatio('Catherine', 'Kathryn')).toBe(100);
+    expect(phoneticRatio('Catherine', 'Kathryn', 0, { algorithm: 'metaphone' })).toBe(100);
+    expect(phoneticRatio('Catherine', 'Kathryn', 0, { algorithm: 'soundex' })).toBe(75);
+  });
+
+  it('should use Double Metaphone alternates', () => {
+    expect(phoneticRatio('Smith', 'Schmidt')).toBe(100);
+  });
+
+  it('should score unrelated names low', () => {
+    expect(phoneticRatio('Smith', 'Johnson')).toBeLessThan(50);
+  });
+
+  it('should return 0 when nothing can be encoded', () => {
+    expect(phoneticRatio('123', '456')).toBe(0);
+  });
+
+  it('should return 0 below the score cutoff', () => {
+    expect(phoneticRatio('Smith', 'Smithers', 90)).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { qgrams, qgramJaccard, qgramDice, qgramOverlap, qgramCosine } from '../src/core/qgram';
+
+describe('qgrams', () => {
+  it('should count overlapping bigrams by default', () => {
+    expect(qgrams('abab')).toEqual(
+      new Map([
+        ['ab', 2],
+        ['ba', 1],
+      ])
+    );
+  });
+
+  it('should honour the gram length', () => {
+    expect([...qgrams('hello', { n: 3 }).keys()]).toEqual(['hel', 'ell', 'llo']);
+    expect(qgrams('ab', { n: 3 }).size).toBe(0);
+  });
+
+  it('should pad both ends when requested', () => {
+    const profile = qgrams('ab', { n: 3, padding: true });
+    expect([...profile.values()].reduce((a, b) => a + b, 0)).toBe(4);
+  });
+
+  it('should reject invalid gram lengths', () => {
+    expect(() => qgrams('abc', { n: 0 })).toThrow();
+    expect(() => qgrams('abc', { n: 1.5 })).toThrow();
+  });
+});
+
+describe('q-gram similarities', () => {
+  it('should return 1 for identical strings', () => {
+    for (const similarity of [qgramJaccard, qgramDice, qgramOverlap, qgramCosine]) {
+      expect(similarity('night', 'night')).toBe(1);
+      expect(similarity('', '')).toBe(1);
+    }
+  });
+
+  it('should return 0 when no grams are shared', () => {
+    for (const similarity of [qgramJaccard, qgramDice, qgramOverlap, qgramCosine]) {
+      expect(similarity('abc', 'xyz')).toBe(0);
+      expect(similarity('abc', '')).toBe(0);
+    }
+  });
+
+  it('should match hand-computed bigram values', () => {
+    // night: ni ig gh ht, nacht: na ac ch ht
+    expect(qgramJaccard('night', 'nacht')).toBeCloseTo(1 / 7, 10);
+    expect(qgramDice('night', 'nacht')).toBeCloseTo(0.25, 10);
+    expect(qgramOverlap('night', 'nacht')).toBeCloseTo(0.25, 10);
+    expect(qgramCosine('night', 'nacht')).toBeCloseTo(0.25, 10);
+  });
+
+  it('should reward shared boundaries when padded', () => {
+    expect(qgramDice('night', 'nacht', { padding: true })).toBeCloseTo(0.5, 10);
+    expect(qgramJaccard('night', 'nacht', { padding: true })).toBeCloseTo(1 / 3, 10);
+  });
+
+  it('should treat grams as a multiset', () => {
+    expect(qgramJaccard('aaa', 'aa')).toBeCloseTo(0.5, 10);
+    expect(qgramCosine('aaa', 'aa')).toBe(1);
+  });
+
+  it('should score a contained string as a full overlap', () => {
+    expect(qgramOverlap('abc', 'xxabcxx')).toBe(1);
+    expect(qgramDice('abc', 'xxabcxx')).toBeLessThan(1);
+  });
+
+  it('should be insensitive to block order', () => {
+    expect(qgramDice('new york city', 'city new york')).toBeGreaterThan(0.8);
+  });
+});
@@ -1,6 +1,19 @@
 import { describe, it, expect } from 'vitest';
 import { ratio, partialRatio, tokenSortRatio, tokenSetRatio, WRatio } from '../src/scorers';
-import { defaultProcessor } from '../src/utils/processor';
+import {
+  defaultProcessor,
+  composeProcessors,
+  normalizationProcessor,
+  nfkcProcessor,
+  nfkdProcessor,
+  stripDiacriticsProcessor,
+  removePunctuationProcessor,
+  collapseWhitespaceProcessor,
+  caseFoldProcessor,
+  phoneticProcessor,
+  soundexProcessor,
+  doubleMetaphoneProcessor,
+} from '../src/utils/processor';
 
 describe('Scorers with Processors', () => {
   describe('ratio with processor', () => {
@@ -88,4 +101,103 @@ describe('Scorers with Processors', () => {
       expect(defaultProcessor('   \t\n   ')).toBe('');
     });
   });
+
+  describe('phonetic processors', () => {
+    it('should replace each word with its phonetic code', () => {
+      expect(soundexProcessor('John Smith')).toBe('J500 S530');
+      expect(doubleMetaphoneProcessor('Catherine')).toBe('K0RN');
+      expect(phoneticProcessor('nysiis')('Knight')).toBe('NAGT');
+    });
+
+    it('should let any scorer compare pronunciations', () => {
+      expect(ratio('Smyth', 'Smith', soundexProcessor)).toBe(100);
+      expect(tokenSortRatio('Kathryn Smyth', 'Smith Catherine', doubleMetaphoneProcessor)).toBe(
+        100
+      );
+    });
+  });
+
+  describe('normalization processors', () => {
+    it('should fold compatibility characters with NFKC', () => {
+      expect(nfkcProcessor('\uff21\uff22\uff23')).toBe('ABC');
+      expect(nfkcProcessor('\ufb01le')).toBe('file');
+      expect(
+        ratio('\uff21\uff22\uff23', 'abc', composeProcessors(nfkcProcessor, defaultProcessor))
+      ).toBe(100);
+    });
+
+    it('should decompose accented letters with NFKD', () => {
+      expect(nfkdProcessor('\u00e9')).toBe('e\u0301');
+      expect(normalizationProcessor('NFC')('e\u0301')).toBe('\u00e9');
+    });
+  });
+
+  describe('stripDiacriticsProcessor', () => {
+    it('should remove accents from precomposed and decomposed letters', () => {
+      expect(stripDiacriticsProcessor('Caf\u00e9')).toBe('Cafe');
+      expect(stripDiacriticsProcessor('Cafe\u0301')).toBe('Cafe');
+      expect(stripDiacriticsProcessor('cr\u00e8me br\u00fbl\u00e9e')).toBe('creme brulee');
+    });
+
+    it('should map letters without a decomposition', () => {
+      expect(stripDiacriticsProcessor('\u0141\u00f3d\u017a')).toBe('Lodz');
+      expect(stripDiacriticsProcessor('Stra\u00dfe')).toBe('Strasse');
+      expect(stripDiacriticsProcessor('\u00c6r\u00f8')).toBe('AEro');
+    });
+
+    it('should leave other scripts intact', () => {
+      expect(stripDiacriticsProcessor('\u6771\u4eac')).toBe('\u6771\u4eac');
+      expect(stripDiacriticsProcessor('\u041c\u043e\u0441\u043a\u0432\u0430')).toBe(
+        '\u041c\u043e\u0441\u043a\u0432\u0430'
+      );
+    });
+  });
+
+  describe('removePunctuationProcessor', () => {
+    it('should replace punctuation with spaces', () => {
+      expect(removePunctuationProcessor('foo-bar.baz!')).toBe('foo bar baz ');
+      expect(removePunctuationProcessor('\u00bfQu\u00e9?')).toBe(' Qu\u00e9 ');
+    });
+  });
+
+  describe('collapseWhitespaceProcessor', () => {
+    it('should trim and collapse whitespace runs', () => {
+      expect(collapseWhitespaceProcessor('  new \t\n york  ')).toBe('new york');
+      expect(collapseWhitespaceProcessor('')).toBe('');
+    });
+  });
+
+  describe('caseFoldProcessor', () => {
+    it('should fold case without a locale', () => {
+      expect(caseFoldProcessor()('Stra\u00dfe')).toBe(caseFoldProcessor()('STRASSE'));
+      expect(caseFoldProcessor()('\u039f\u0394\u039f\u03a3')).toBe(
+        caseFoldProcessor()('\u03bf\u03b4\u03bf\u03c2')
+      );
+    });
+
+    it('should apply Turkish dotted and dotless i rules', () => {
+      const turkish = caseFoldProcessor('tr');
+      expect(turkish('\u0130stanbul')).toBe('istanbul');
+      expect(turkish('ISPARTA')).toBe('\u0131sparta');
+      expect(ratio('\u0130STANBUL', 'istanbul', turkish)).toBe(100);
+    });
+  });
+
+  describe('composeProcessors', () => {
+    it('should apply processors from left to right', () => {
+      const processor = composeProcessors(
+        nfkcProcessor,
+        caseFoldProcessor(),
+        stripDiacriticsProcessor,
+        removePunctuationProcessor,
+        collapseWhitespaceProcessor
+      );
+      expect(processor('  Caf\u00e9 -- \uff2f\uff2c\uff25!  ')).toBe('cafe ole');
+      expect(ratio('Caf\u00e9', 'cafe', processor)).toBe(100);
+    });
+
+    it('should return the input unchanged without processors', () => {
+      expect(composeProcessors()('Hello')).toBe('Hello');
+    });
+  });
 });
@@ -1,5 +1,29 @@
 import { describe, it, expect } from 'vitest';
-import { ratio, partialRatio, tokenSortRatio, tokenSetRatio, WRatio } from '../src/scorers';
+import {
+  ratio,
+  osaRatio,
+  damerauLevenshteinRatio,
+  jaroRatio,
+  jaroWinklerRatio,
+  jaccardRatio,
+  diceRatio,
+  overlapRatio,
+  cosineRatio,
+  hammingRatio,
+  longestCommonSubstringRatio,
+  ratcliffObershelpRatio,
+  smithWatermanRatio,
+  needlemanWunschRatio,
+  phoneticRatio,
+  partialRatio,
+  tokenSortRatio,
+  tokenSetRatio,
+  partialTokenSortRatio,
+  partialTokenSetRatio,
+  tokenRatio,
+  partialTokenRatio,
+  WRatio,
+} from '../src/scorers';
 
 describe('ratio', () => {
   it('should return 100 for identical strings', () => {
@@ -51,6 +75,15 @@ describe('tokenSetRatio', () => {
   });
 });
 
+describe('partial token ratios', () => {
+  it('should apply the default processor', () => {
+    expect(partialTokenSortRatio('  Fuzzy Bear', 'bear wuzzy was fuzzy')).toBe(100);
+    expect(partialTokenSetRatio('YORK Giants', 'new york mets')).toBe(100);
+    expect(tokenRatio('John Smith', 'SMITH john')).toBe(100);
+    expect(partialTokenRatio('Smith John', 'john smith jr')).toBe(100);
+  });
+});
+
 describe('WRatio', () => {
   it('should return high score for similar strings', () => {
     const score = WRatio('hello world', 'hello world');
@@ -61,4 +94,129 @@ describe('WRatio', () => {
     expect(WRatio('John Smith', 'Smith John')).toBe(100);
     expect(WRatio('abc', 'abcdef')).toBeGreaterThan(50);
   });
+
+  it('should accept the partialTokenRatios option', () => {
+    const options = { partialTokenRatios: true };
+    expect(
+      WRatio('York Giants', 'New York Mets baseball team tonight', undefined, 0, options)
+    ).toBe(95);
+  });
+});
+
+describe('osaRatio', () => {
+  it('should be case insensitive', () => {
+    expect(osaRatio('Hello', 'HELLO')).toBe(100);
+  });
+
+  it('should favour transpositions over ratio', () => {
+    expect(osaRatio('teh', 'the')).toBeGreaterThan(ratio('teh', 'the'));
+  });
+});
+
+describe('damerauLevenshteinRatio', () => {
+  it('should be case insensitive', () => {
+    expect(damerauLevenshteinRatio('Hello', 'HELLO')).toBe(100);
+  });
+
+  it('should favour transpositions over ratio', () => {
+    expect(damerauLevenshteinRatio('recieve', 'receive')).toBeGreaterThan(
+      ratio('recieve', 'receive')
+    );
+  });
+});
+
+describe('jaroRatio', () => {
+  it('should scale Jaro similarity to 0-100', () => {
+    expect(jaroRatio('MARTHA', 'MARHTA')).toBeCloseTo(94.44, 2);
+  });
+
+  it('should use custom processor', () => {
+    const processor = (str: string): string => str;
+    expect(jaroRatio('Martha', 'martha', processor)).toBeLessThan(100);
+  });
+});
+
+describe('jaroWinklerRatio', () => {
+  it('should scale Jaro-Winkler similarity to 0-100', () => {
+    expect(jaroWinklerRatio('MARTHA', 'MARHTA')).toBeCloseTo(96.11, 2);
+  });
+
+  it('should accept Jaro-Winkler options', () => {
+    expect(jaroWinklerRatio('MARTHA', 'MARHTA', undefined, 0, { prefixScale: 0 })).toBeCloseTo(
+      jaroRatio('MARTHA', 'MARHTA'),
+      10
+    );
+  });
+});
+
+describe('q-gram scorers', () => {
+  it('should scale q-gram similarities to 0-100', () => {
+    expect(jaccardRatio('night', 'nacht')).toBeCloseTo(14.29, 2);
+    expect(diceRatio('night', 'nacht')).toBeCloseTo(25, 10);
+    expect(overlapRatio('abc', 'xxabcxx')).toBe(100);
+    expect(cosineRatio('night', 'nacht')).toBeCloseTo(25, 10);
+  });
+
+  it('should accept q-gram options', () => {
+    expect(diceRatio('night', 'nacht', undefined, 0, { padding: true })).toBeCloseTo(50, 10);
+    expect(diceRatio('night', 'nacht', undefined, 0, { n: 3 })).toBe(0);
+  });
+
+  it('should return 0 below the score cutoff', () => {
+    expect(diceRatio('night', 'nacht', undefined, 30)).toBe(0);
+  });
+});
+
+describe('hammingRatio', () => {
+  it('should compare equal-length codes', () => {
+    expect(hammingRatio('AB-1234', 'ab-1235')).toBeCloseTo(85.71, 2);
+    expect(hammingRatio('AB-1234', 'AB-123')).toBe(0);
+  });
+});
+
+describe('longestCommonSubstringRatio', () => {
+  it('should score the longest shared block', () => {
+    expect(longestCommonSubstringRatio('xabcdy', 'zzabcd')).toBeCloseTo(66.67, 2);
+  });
+});
+
+describe('ratcliffObershelpRatio', () => {
+  it('should reproduce difflib scores after processing', () => {
+    expect(ratcliffObershelpRatio('ABCD', 'bcde')).toBe(75);
+  });
+
+  it('should accept autojunk options', () => {
+    const long = 'ab'.repeat(100) + 'xy';
+    expect(ratcliffObershelpRatio('xaby', long, undefined, 0, { autojunk: false })).toBeCloseTo(
+      2.91,
+      2
+    );
+  });
+});
+
+describe('smithWatermanRatio', () => {
+  it('should score local alignments after processing', () => {
+    expect(smithWatermanRatio('NEEDLE', 'haystack with a needle')).toBe(100);
+  });
+
+  it('should accept alignment options', () => {
+    expect(smithWatermanRatio('abcxef', 'abcdef', undefined, 0, { mismatch: -10 })).toBe(50);
+  });
+});
+
+describe('needlemanWunschRatio', () => {
+  it('should score global alignments after processing', () => {
+    expect(needlemanWunschRatio('ABC', 'abd')).toBe(50);
+  });
+});
+
+describe('phoneticRatio', () => {
+  it('should match names that sound alike', () => {
+    expect(phoneticRatio('Smyth', 'SMITH')).toBe(100);
+    expect(phoneticRatio('Catherine', 'Kathryn')).toBe(100);
+  });
+
+  it('should accept a phonetic algorithm', () => {
+    expect(phoneticRatio('Catherine', 'Kathryn', undefined, 0, { algorithm: 'soundex' })).toBe(75);
+  });
 });
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createLocaleTokenizer, tokenize } from '../src/core/tokenizer';
+import { tokenSortRatio, tokenSetRatio, WRatio } from '../src/scorers';
+import { scorerBuilder } from '../src/builders';
+
+describe('createLocaleTokenizer', () => {
+  it('should split Japanese, Chinese and Thai text into words', () => {
+    expect(tokenize('東京タワーの近くのホテル')).toHaveLength(1);
+    expect(createLocaleTokenizer({ locale: 'ja' })('東京タワーの近くのホテル')).toEqual([
+      '東京タワー',
+      'の',
+      '近く',
+      'の',
+      'ホテル',
+    ]);
+    expect(createLocaleTokenizer({ locale: 'zh' })('北京烤鸭餐厅').length).toBeGreaterThan(1);
+    expect(createLocaleTokenizer({ locale: 'th' })('สวัสดีครับ').length).toBeGreaterThan(1);
+  });
+
+  it('should drop spaces and punctuation', () => {
+    expect(createLocaleTokenizer()('Hello, world! iPhone 15')).toEqual([
+      'hello',
+      'world',
+      'iphone',
+      '15',
+    ]);
+  });
+
+  it('should preserve case when asked', () => {
+    expect(createLocaleTokenizer({ preserveCase: true })('Hello World')).toEqual([
+      'Hello',
+      'World',
+    ]);
+  });
+});
+
+describe('locale tokenizer with token scorers', () => {
+  const tokenizer = createLocaleTokenizer({ locale: 'ja' });
+
+  it('should match reordered unspaced titles', () => {
+    const s1 = '東京タワー近くホテル';
+    const s2 = 'ホテル東京タワー近く';
+    expect(tokenSortRatio(s1, s2)).toBeLessThan(100);
+    expect(tokenSortRatio(s1, s2, undefined, 0, { tokenizer })).toBe(100);
+  });
+
+  it('should tolerate extra words in tokenSetRatio and WRatio', () => {
+    const s1 = '北京烤鸭餐厅';
+    const s2 = '餐厅 北京烤鸭 王府井店';
+    const zh = createLocaleTokenizer({ locale: 'zh' });
+    expect(tokenSetRatio(s1, s2, undefined, 0, { tokenizer: zh })).toBe(100);
+    expect(WRatio(s1, s2, undefined, 0, { tokenizer: zh })).toBeGreaterThan(WRatio(s1, s2));
+  });
+
+  it('should be accepted by the scorer builder', () => {
+    const scorer = scorerBuilder().withAlgorithm('tokenSort').withTokenizer(tokenizer).build();
+    expect(scorer('東京タワー近くホテル', 'ホテル 東京タワー 近く')).toBe(100);
+  });
+});
+
+describe('bigram fallback without Intl.Segmenter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should split unspaced scripts into character bigrams', () => {
+    vi.stubGlobal('Intl', { ...Intl, Segmenter: undefined });
+    const tokenizer = createLocaleTokenizer({ locale: 'ja' });
+
+    expect(tokenizer('東京タワー')).toEqual(['東京', '京タ', 'タワ', 'ワー']);
+    expect(tokenizer('Tokyo 東京, 駅!')).toEqual(['tokyo', '東京', '駅']);
+    expect(tokenizer('iPhone15ケース')).toEqual(['iphone15', 'ケー', 'ース']);
+  });
+
+  it('should still match reordered phrases', () => {
+    vi.stubGlobal('Intl', { ...Intl, Segmenter: undefined });
+    const tokenizer = createLocaleTokenizer();
+
+    expect(
+      tokenSetRatio('東京タワー ホテル', 'ホテル 東京タワー', undefined, 0, { tokenizer })
+    ).toBe(100);
+    expect(tokenSetRatio('東京タワー近くホテル', '東京タワー', undefined, 0, { tokenizer })).toBe(
+      100
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  longestCommonSubstring,
+  longestCommonSubstringRatio,
+  matchingBlocks,
+  ratcliffObershelpRatio,
+} from '../src/core/sequenceMatcher';
+import { hammingDistance, hammingRatio } from '../src/core/hamming';
+
+describe('hammingDistance', () => {
+  it('should count differing positions', () => {
+    expect(hammingDistance('karolin', 'kathrin')).toBe(3);
+    expect(hammingDistance('1011101', '1001001')).toBe(2);
+    expect(hammingDistance('', '')).toBe(0);
+  });
+
+  it('should throw for strings of different lengths', () => {
+    expect(() => hammingDistance('abc', 'ab')).toThrow();
+  });
+});
+
+describe('hammingRatio', () => {
+  it('should normalize by the string length', () => {
+    expect(hammingRatio('karolin', 'kathrin')).toBeCloseTo(57.14, 2);
+    expect(hammingRatio('abc', 'abc')).toBe(100);
+  });
+
+  it('should return 0 for strings of different lengths', () => {
+    expect(hammingRatio('abc', 'ab')).toBe(0);
+  });
+
+  it('should return 0 below the score cutoff', () => {
+    expect(hammingRatio('karolin', 'kathrin', 60)).toBe(0);
+  });
+});
+
+describe('longestCommonSubstring', () => {
+  it('should locate the longest shared block', () => {
+    expect(longestCommonSubstring('xabcdy', 'zzabcd')).toEqual({
+      sourceStart: 1,
+      destStart: 2,
+      length: 4,
+    });
+  });
+
+  it('should prefer the first block on ties', () => {
+    expect(longestCommonSubstring('abxcd', 'cdab')).toEqual({
+      sourceStart: 0,
+      destStart: 2,
+      length: 2,
+    });
+  });
+
+  it('should return length 0 without common characters', () => {
+    expect(longestCommonSubstring('abc', 'xyz').length).toBe(0);
+    expect(longestCommonSubstring('', 'xyz').length).toBe(0);
+  });
+});
+
+describe('longestCommonSubstringRatio', () => {
+  it('should normalize by the longer string', () => {
+    expect(longestCommonSubstringRatio('xabcdy', 'zzabcd')).toBeCloseTo(66.67, 2);
+    expect(longestCommonSubstringRatio('', '')).toBe(100);
+  });
+
+  it('should return 0 below the score cutoff', () => {
+    expect(longestCommonSubstringRatio('xabcdy', 'zzabcd', 70)).toBe(0);
+    expect(longestCommonSubstringRatio('ab', 'abcdefgh', 50)).toBe(0);
+  });
+});
+
+describe('matchingBlocks', () => {
+  it('should match difflib get_matching_blocks', () => {
+    expect(matchingBlocks('fuzzy wuzzy was a bear', 'wuzzy fuzzy was a bear')).toEqual([
+      { sourceStart: 1, destStart: 1, length: 5 },
+      { sourceStart: 7, destStart: 7, length: 15 },
+    ]);
+    expect(matchingBlocks('abcd', 'bcde')).toEqual([{ sourceStart: 1, destStart: 0, length: 3 }]);
+  });
+});
+
+describe('ratcliffObershelpRatio', () => {
+  it('should reproduce difflib SequenceMatcher.ratio', () => {
+    expect(ratcliffObershelpRatio('abcd', 'bcde')).toBe(75);
+    expect(ratcliffObershelpRatio('fuzzy wuzzy was a bear', 'wuzzy fuzzy was a bear')).toBeCloseTo(
+      90.9090909090909,
+      10
+    );
+    expect(
+      ratcliffObershelpRatio(
+        'private Thread currentThread;',
+        'private volatile Thread currentThread;'
+      )
+    ).toBeCloseTo(86.56716417910447, 10);
+    expect(ratcliffObershelpRatio(' abcd', 'abcd abcd')).toBeCloseTo(71.42857142857143, 10);
+  });
+
+  it('should return 100 for two empty strings', () => {
+    expect(ratcliffObershelpRatio('', '')).toBe(100);
+  });
+
+  it('should apply the autojunk heuristic to long second strings', () => {
+    const long = 'ab'.repeat(100) + 'xy';
+    expect(ratcliffObershelpRatio('xaby', long)).toBeCloseTo(1.9417475728155338, 10);
+    expect(ratcliffObershelpRatio('xaby', long, 0, { autojunk: false })).toBeCloseTo(
+      2.912621359223301,
+      10
+    );
+  });
+
+  it('should return 0 below the score cutoff', () => {
+    expect(ratcliffObershelpRatio('abcd', 'bcde', 80)).toBe(0);
+    expect(ratcliffObershelpRatio('abcd', 'bcde', 75)).toBe(75);
+  });
+});
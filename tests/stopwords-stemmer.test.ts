@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { getStopwords, removeStopwords } from '../src/core/stopwords';
+import { porterStem, stemTokens } from '../src/core/stemmer';
+import { tokenSetRatio } from '../src/core/tokenSetRatio';
+import { tokenSortRatio } from '../src/core/tokenSortRatio';
+import { createScorer, scorerBuilder } from '../src/builders';
+
+describe('stopwords', () => {
+  it('should bundle English, Spanish, French and German lists', () => {
+    expect(getStopwords('en').has('the')).toBe(true);
+    expect(getStopwords('es').has('los')).toBe(true);
+    expect(getStopwords('fr').has('avec')).toBe(true);
+    expect(getStopwords('de').has('für')).toBe(true);
+    expect(getStopwords('en').has('shoes')).toBe(false);
+  });
+
+  it('should remove stopwords case-insensitively and keep token order', () => {
+    expect(removeStopwords(['The', 'best', 'shoes', 'for', 'men'])).toEqual([
+      'best',
+      'shoes',
+      'men',
+    ]);
+    expect(removeStopwords(['el', 'perro', 'y', 'la', 'casa'], 'es')).toEqual(['perro', 'casa']);
+  });
+
+  it('should combine several languages', () => {
+    expect(removeStopwords(['le', 'chat', 'und', 'der', 'hund', 'the'], ['fr', 'de'])).toEqual([
+      'chat',
+      'hund',
+      'the',
+    ]);
+  });
+
+  it('should keep tokens made up only of stopwords', () => {
+    expect(removeStopwords(['the', 'who'])).toEqual(['the', 'who']);
+    expect(removeStopwords([])).toEqual([]);
+  });
+});
+
+describe('porterStem', () => {
+  it("should match Porter's reference vocabulary", () => {
+    const expected: Record<string, string> = {
+      caresses: 'caress',
+      ponies: 'poni',
+      cats: 'cat',
+      agreed: 'agre',
+      plastered: 'plaster',
+      motoring: 'motor',
+      sing: 'sing',
+      conflated: 'conflat',
+      hopping: 'hop',
+      falling: 'fall',
+      filing: 'file',
+      happy: 'happi',
+      relational: 'relat',
+      conditional: 'condit',
+      vietnamization: 'vietnam',
+      hopefulness: 'hope',
+      sensibiliti: 'sensibl',
+      electrical: 'electr',
+      replacement: 'replac',
+      adoption: 'adopt',
+      generalizations: 'gener',
+      controll: 'control',
+      roll: 'roll',
+    };
+    for (const [word, stem] of Object.entries(expected)) {
+      expect(porterStem(word)).toBe(stem);
+    }
+  });
+
+  it('should strip possessives and lowercase', () => {
+    expect(porterStem("men's")).toBe('men');
+    expect(porterStem('Running')).toBe('run');
+  });
+
+  it('should leave short and non-ASCII words alone', () => {
+    expect(porterStem('is')).toBe('is');
+    expect(porterStem('café')).toBe('café');
+    expect(porterStem('iphone15')).toBe('iphone15');
+  });
+
+  it('should stem token lists', () => {
+    expect(stemTokens(['running', 'shoes'])).toEqual(['run', 'shoe']);
+  });
+});
+
+describe('token processors in token ratios', () => {
+  const tokenProcessor = (tokens: string[]): string[] => stemTokens(removeStopwords(tokens));
+
+  it('should ignore filler words and inflections', () => {
+    const query = 'the best running shoes for men';
+    const title = "men's running shoe best";
+    expect(tokenSetRatio(query, title)).toBeLessThan(100);
+    expect(tokenSetRatio(query, title, 0, { tokenProcessor })).toBe(100);
+    expect(tokenSortRatio(query, title, 0, { tokenProcessor })).toBe(100);
+  });
+});
+
+describe('stopwords and stemming in ScorerConfig', () => {
+  it('should apply stopwords and stemming to the token algorithms', () => {
+    const plain = createScorer({ algorithm: 'tokenSet' });
+    const scorer = createScorer({ algorithm: 'tokenSet', stopwords: 'en', stemming: true });
+    expect(scorer('the best running shoes for men', "men's running shoe")).toBeGreaterThan(
+      plain('the best running shoes for men', "men's running shoe")
+    );
+    expect(scorer('running shoes for men', "men's running shoe")).toBe(100);
+  });
+
+  it('should apply them within the weighted algorithm', () => {
+    const plain = createScorer();
+    const scorer = createScorer({ stopwords: ['es'] });
+    expect(scorer('los zapatos de la casa', 'el zapatos con casa')).toBe(100);
+    expect(plain('los zapatos de la casa', 'el zapatos con casa')).toBeLessThan(100);
+  });
+
+  it('should configure them through the builder', () => {
+    const scorer = scorerBuilder()
+      .withAlgorithm('tokenSort')
+      .withStopwords('en')
+      .withStemming()
+      .build();
+    expect(scorer('connected to the networks', 'network connection')).toBe(100);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  subsequenceMatch,
+  subsequenceRatio as coreSubsequenceRatio,
+} from '../src/core/subsequence';
+import { subsequenceRatio, WRatio } from '../src/scorers';
+import { extract, extractOne } from '../src/process';
+
+const FILES = [
+  'src/users/control.ts',
+  'UsageStatsCollector.ts',
+  'UserController.ts',
+  'UserControllerTest.ts',
+  'README.md',
+];
+
+describe('subsequenceMatch', () => {
+  it('should return the matched positions', () => {
+    expect(subsequenceMatch('usrctl', 'UserController.ts')?.positions).toEqual([0, 1, 3, 4, 7, 10]);
+    expect(subsequenceMatch('abc', 'abc')).toEqual({ score: 100, positions: [0, 1, 2] });
+  });
+
+  it('should return null when the text does not contain the pattern', () => {
+    expect(subsequenceMatch('xyz', 'UserController.ts')).toBeNull();
+    expect(subsequenceMatch('cba', 'abc')).toBeNull();
+    expect(subsequenceMatch('abcd', 'abc')).toBeNull();
+  });
+
+  it('should prefer word boundaries and camelCase humps', () => {
+    // "uc" could match "u" and "c" anywhere; the humps of UserController win
+    expect(subsequenceMatch('uc', 'UserController.ts')?.positions).toEqual([0, 4]);
+    expect(subsequenceMatch('fb', 'foo/bar.ts')?.positions).toEqual([0, 4]);
+    expect(subsequenceMatch('ct', 'cat_total')?.positions).toEqual([0, 4]);
+    expect(coreSubsequenceRatio('uc', 'UserController.ts')).toBeGreaterThan(
+      coreSubsequenceRatio('uc', 'lucky.ts')
+    );
+  });
+
+  it('should prefer consecutive and prefix matches', () => {
+    expect(subsequenceMatch('con', 'icon-controller')?.positions).toEqual([5, 6, 7]);
+    expect(coreSubsequenceRatio('abc', 'abcxyz')).toBeGreaterThan(
+      coreSubsequenceRatio('abc', 'xaxbxc')
+    );
+    expect(coreSubsequenceRatio('abc', 'abcxyz')).toBeGreaterThan(
+      coreSubsequenceRatio('abc', 'xyzabc')
+    );
+  });
+
+  it('should rank shorter texts higher on equal matches', () => {
+    expect(coreSubsequenceRatio('user', 'User.ts')).toBeGreaterThan(
+      coreSubsequenceRatio('user', 'UserController.ts')
+    );
+  });
+
+  it('should ignore case unless asked not to', () => {
+    expect(subsequenceMatch('USR', 'user')?.positions).toEqual([0, 1, 3]);
+    expect(subsequenceMatch('USR', 'user', { caseSensitive: true })).toBeNull();
+    expect(subsequenceMatch('UC', 'UserController', { caseSensitive: true })?.positions).toEqual([
+      0, 4,
+    ]);
+  });
+
+  it('should handle empty strings', () => {
+    expect(subsequenceMatch('', '')).toEqual({ score: 100, positions: [] });
+    expect(subsequenceMatch('', 'abc')).toEqual({ score: 0, positions: [] });
+    expect(subsequenceMatch('a', '')).toBeNull();
+  });
+});
+
+describe('subsequenceRatio', () => {
+  it('should apply the cutoff', () => {
+    const score = coreSubsequenceRatio('usrctl', 'UserController.ts');
+    expect(coreSubsequenceRatio('usrctl', 'UserController.ts', score)).toBe(score);
+    expect(coreSubsequenceRatio('usrctl', 'UserController.ts', score + 0.01)).toBe(0);
+    expect(coreSubsequenceRatio('xyz', 'UserController.ts')).toBe(0);
+  });
+
+  it('should rank abbreviations better than edit-distance scorers', () => {
+    expect(extractOne('usrctl', FILES, subsequenceRatio)?.choice).toBe('UserController.ts');
+    expect(subsequenceRatio('usrctl', 'UserController.ts')).toBeGreaterThan(
+      WRatio('usrctl', 'UserController.ts')
+    );
+  });
+
+  it('should work with extract', () => {
+    const results = extract('usrctl', FILES, subsequenceRatio, 3);
+    expect(results.map((result) => result.choice)).toEqual([
+      'UserController.ts',
+      'UserControllerTest.ts',
+      'src/users/control.ts',
+    ]);
+  });
+
+  it('should apply a processor when given', () => {
+    expect(subsequenceRatio('  usr', 'user', (str) => str.trim())).toBeGreaterThan(0);
+    expect(subsequenceRatio('  usr', 'user')).toBe(0);
+  });
+});
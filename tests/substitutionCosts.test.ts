@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  keyboardSubstitutionCost,
+  ocrSubstitutionCost,
+  substitutionTableCosts,
+} from '../src/core/substitutionCosts';
+import { weightedLevenshteinDistance, weightedLevenshteinRatio } from '../src/core/levenshtein';
+import { createScorer } from '../src/builders';
+import { extract } from '../src/process';
+
+describe('keyboardSubstitutionCost', () => {
+  it('should treat neighbouring QWERTY keys as near misses', () => {
+    const cost = keyboardSubstitutionCost('qwerty');
+    expect(cost('e', 'w')).toBe(0.5);
+    expect(cost('e', 'r')).toBe(0.5);
+    expect(cost('e', 'd')).toBe(0.5);
+    expect(cost('e', '3')).toBe(0.5);
+    expect(cost('e', 'p')).toBe(1);
+  });
+
+  it('should be symmetric and case-insensitive', () => {
+    const cost = keyboardSubstitutionCost('qwerty');
+    expect(cost('g', 'h')).toBe(cost('h', 'g'));
+    expect(cost('G', 'h')).toBe(0.5);
+    expect(cost('A', 'a')).toBe(0);
+  });
+
+  it('should use the layout-specific positions', () => {
+    expect(keyboardSubstitutionCost('azerty')('a', 'z')).toBe(0.5);
+    expect(keyboardSubstitutionCost('qwerty')('a', 'z')).toBe(0.5);
+    expect(keyboardSubstitutionCost('azerty')('a', 's')).toBe(1);
+    expect(keyboardSubstitutionCost('qwertz')('z', 'u')).toBe(0.5);
+    expect(keyboardSubstitutionCost('qwerty')('z', 'u')).toBe(1);
+  });
+
+  it('should honour custom costs', () => {
+    const cost = keyboardSubstitutionCost('qwerty', { nearMissCost: 0.2, defaultCost: 2 });
+    expect(cost('q', 'w')).toBe(0.2);
+    expect(cost('q', 'p')).toBe(2);
+  });
+});
+
+describe('ocrSubstitutionCost', () => {
+  it('should treat common OCR confusions as near misses', () => {
+    const cost = ocrSubstitutionCost();
+    expect(cost('0', 'O')).toBe(0.5);
+    expect(cost('0', 'o')).toBe(0.5);
+    expect(cost('1', 'l')).toBe(0.5);
+    expect(cost('5', 'S')).toBe(0.5);
+    expect(cost('a', 'x')).toBe(1);
+  });
+
+  it('should support characters in several confusion groups', () => {
+    const cost = ocrSubstitutionCost();
+    expect(cost('b', '6')).toBe(0.5);
+    expect(cost('b', 'h')).toBe(0.5);
+  });
+});
+
+describe('substitutionTableCosts', () => {
+  it('should make keyboard typos cheaper than random substitutions', () => {
+    const costs = substitutionTableCosts('qwerty');
+    expect(weightedLevenshteinDistance('grwat', 'great', costs)).toBe(0.5);
+    expect(weightedLevenshteinDistance('gpeat', 'great', costs)).toBe(1);
+  });
+
+  it('should include multi-character OCR confusions in both directions', () => {
+    const costs = substitutionTableCosts('ocr');
+    expect(weightedLevenshteinDistance('modern', 'modem', costs)).toBe(0.5);
+    expect(weightedLevenshteinDistance('modem', 'modern', costs)).toBe(0.5);
+    expect(weightedLevenshteinDistance('C0DE', 'CODE', costs)).toBe(0.5);
+  });
+
+  it('should produce ratios above the unit-cost ratio for near misses', () => {
+    const costs = substitutionTableCosts('ocr');
+    expect(weightedLevenshteinRatio('c1ient', 'client', costs)).toBeGreaterThan(
+      weightedLevenshteinRatio('cxient', 'client', costs)
+    );
+  });
+
+  it('should score unrelated strings 0 and plain typos like the unit-cost ratio', () => {
+    const qwerty = substitutionTableCosts('qwerty');
+    expect(weightedLevenshteinRatio('qwert', 'mnbvc', qwerty)).toBe(0);
+    expect(weightedLevenshteinRatio('hello', 'hellz', qwerty)).toBe(80);
+    expect(weightedLevenshteinRatio('hello', 'hellp', qwerty)).toBe(90);
+    expect(weightedLevenshteinRatio('abcd', 'wxyz', substitutionTableCosts('ocr'))).toBe(0);
+  });
+
+  it('should normalize by the default cost', () => {
+    const costs = substitutionTableCosts('qwerty', { defaultCost: 2 });
+    expect(costs.substitution).toBe(2);
+    expect(weightedLevenshteinRatio('abc', 'lpo', costs)).toBe(0);
+  });
+});
+
+describe('createScorer with substitution tables', () => {
+  it('should rank near-miss typos above genuinely different strings', () => {
+    const scorer = createScorer({ substitutionTable: 'qwerty' });
+    const results = extract('grwat', ['gxeat', 'great'], scorer, 2);
+    expect(results[0]?.choice).toBe('great');
+    expect(results[0]?.score).toBeGreaterThan(results[1]?.score ?? 100);
+  });
+
+  it('should let explicit edit costs override table defaults', () => {
+    const scorer = createScorer({ substitutionTable: 'ocr', editCosts: { insertion: 2 } });
+    expect(scorer('modem', 'modern')).toBeGreaterThan(
+      createScorer({ algorithm: 'simple' })('modem', 'modern')
+    );
+  });
+
+  it('should score unrelated strings 0', () => {
+    expect(createScorer({ substitutionTable: 'qwerty' })('qwert', 'mnbvc')).toBe(0);
+    expect(createScorer({ substitutionTable: 'qwerty' })('hello', 'hellz')).toBe(80);
+    expect(createScorer({ substitutionTable: 'ocr' })('abcd', 'wxyz')).toBe(0);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { createSynonymNormalizer, parseSynonymDictionary } from '../src/core/synonyms';
+import { tokenSortRatio } from '../src/core/tokenSortRatio';
+import { tokenSetRatio } from '../src/core/tokenSetRatio';
+import { ratio } from '../src/scorers';
+import { synonymProcessor } from '../src/utils/processor';
+import { createScorer, scorerBuilder } from '../src/builders';
+
+const ADDRESSES = {
+  street: ['st', 'str'],
+  avenue: 'ave',
+  international: 'intl',
+  and: '&',
+  'new york': ['ny', 'nyc'],
+};
+
+describe('createSynonymNormalizer', () => {
+  it('should replace abbreviations with their canonical form', () => {
+    const normalize = createSynonymNormalizer(ADDRESSES);
+    expect(normalize(['smith', '&', 'sons', 'intl'])).toEqual([
+      'smith',
+      'and',
+      'sons',
+      'international',
+    ]);
+    expect(normalize(['5th', 'Ave'])).toEqual(['5th', 'avenue']);
+  });
+
+  it('should expand to and match multi-token phrases', () => {
+    const normalize = createSynonymNormalizer({
+      'new york city': 'nyc',
+      'new york': 'ny',
+      usa: ['united states', 'united states of america'],
+    });
+    expect(normalize(['nyc'])).toEqual(['new', 'york', 'city']);
+    expect(normalize(['new', 'york', 'city'])).toEqual(['new', 'york', 'city']);
+    expect(normalize(['ny', 'state'])).toEqual(['new', 'york', 'state']);
+    expect(normalize(['united', 'states', 'of', 'america'])).toEqual(['usa']);
+    expect(normalize(['the', 'united', 'states'])).toEqual(['the', 'usa']);
+  });
+
+  it('should leave unknown tokens untouched', () => {
+    const normalize = createSynonymNormalizer(ADDRESSES);
+    expect(normalize(['Main', 'Road'])).toEqual(['Main', 'Road']);
+    expect(normalize([])).toEqual([]);
+  });
+
+  it('should load a dictionary from JSON', () => {
+    const normalize = createSynonymNormalizer('{"company": ["co", "corp"], "limited": "ltd"}');
+    expect(normalize(['acme', 'corp', 'ltd'])).toEqual(['acme', 'company', 'limited']);
+  });
+
+  it('should reject conflicting variants', () => {
+    expect(() => createSynonymNormalizer({ street: 'st', saint: 'st' })).toThrow(
+      'Conflicting synonyms for "st"'
+    );
+  });
+});
+
+describe('parseSynonymDictionary', () => {
+  it('should parse valid dictionaries', () => {
+    expect(parseSynonymDictionary('{"street": ["st"], "and": "&"}')).toEqual({
+      street: ['st'],
+      and: '&',
+    });
+  });
+
+  it('should reject malformed dictionaries', () => {
+    expect(() => parseSynonymDictionary('["st"]')).toThrow('must be a JSON object');
+    expect(() => parseSynonymDictionary('{"street": 1}')).toThrow(
+      'Variants of "street" must be a string or an array of strings'
+    );
+    expect(() => parseSynonymDictionary('{"street": ["st", 2]}')).toThrow('Variants of "street"');
+  });
+});
+
+describe('synonyms in scorers', () => {
+  it('should let token scorers match abbreviated addresses', () => {
+    const tokenProcessor = createSynonymNormalizer(ADDRESSES);
+    expect(tokenSortRatio('123 Main St', 'main street 123')).toBeLessThan(100);
+    expect(tokenSortRatio('123 Main St', 'main street 123', 0, { tokenProcessor })).toBe(100);
+    expect(
+      tokenSetRatio('Smith & Sons Intl', 'smith and sons international ltd', 0, { tokenProcessor })
+    ).toBe(100);
+  });
+
+  it('should work as a processor for any scorer', () => {
+    const processor = synonymProcessor(ADDRESSES);
+    expect(processor('  350 5th  Ave NY ')).toBe('350 5th avenue new york');
+    expect(ratio('350 fifth ave', '350 fifth avenue', processor)).toBe(100);
+  });
+
+  it('should apply the synonyms option of createScorer to every algorithm', () => {
+    const simple = createScorer({ algorithm: 'simple', synonyms: ADDRESSES });
+    const weighted = createScorer({ synonyms: JSON.stringify(ADDRESSES) });
+    expect(simple('Acme Intl', 'acme international')).toBe(100);
+    expect(weighted('42 Broadway NYC', 'broadway new york 42')).toBe(100);
+  });
+
+  it('should configure synonyms through the builder', () => {
+    const scorer = scorerBuilder().withAlgorithm('tokenSort').withSynonyms(ADDRESSES).build();
+    expect(scorer('Elm St & Oak Ave', 'oak avenue and elm street')).toBe(100);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { transliterate } from '../src/core/transliteration';
+import { ratio } from '../src/scorers';
+import { extract, extractOne } from '../src/process';
+import { createScorer } from '../src/builders';
+import {
+  composeProcessors,
+  defaultProcessor,
+  transliterationProcessor,
+} from '../src/utils/processor';
+
+describe('transliterate', () => {
+  it('should transliterate Cyrillic', () => {
+    expect(transliterate('Москва')).toBe('Moskva');
+    expect(transliterate('Щукин')).toBe('Shchukin');
+    expect(transliterate('Київ')).toBe('Kiyiv');
+    expect(transliterate('Beograd Београд')).toBe('Beograd Beograd');
+  });
+
+  it('should transliterate Greek, including letter pairs and accents', () => {
+    expect(transliterate('Αθήνα')).toBe('Athina');
+    expect(transliterate('Θεσσαλονίκη')).toBe('Thessaloniki');
+    expect(transliterate('Ευρώπη')).toBe('Evropi');
+    expect(transliterate('Άγγελος')).toBe('Angelos');
+  });
+
+  it('should transliterate basic Arabic', () => {
+    expect(transliterate('محمد')).toBe('mhmd');
+    expect(transliterate('مُحَمَّد')).toBe('muhamad');
+    expect(transliterate('القاهرة')).toBe('alqahra');
+    expect(transliterate('٢٠٢٤')).toBe('2024');
+  });
+
+  it('should transliterate Hebrew and drop vowel points', () => {
+    expect(transliterate('ירושלים')).toBe('yrvshlym');
+    expect(transliterate('שָׁלוֹם')).toBe('shlvm');
+  });
+
+  it('should keep the letter case of capitalized and all-caps words', () => {
+    expect(transliterate('Жук ЖУК жук')).toBe('Zhuk ZHUK zhuk');
+    expect(transliterate('ΟΥΡΑΝΟΣ')).toBe('OURANOS');
+  });
+
+  it('should only transliterate the selected scripts', () => {
+    expect(transliterate('Москва Αθήνα', 'cyrillic')).toBe('Moskva Αθήνα');
+    expect(transliterate('Москва Αθήνα', ['greek'])).toBe('Москва Athina');
+    expect(transliterate('Москва Αθήνα', ['cyrillic', 'greek'])).toBe('Moskva Athina');
+  });
+
+  it('should leave Latin text and other scripts untouched', () => {
+    expect(transliterate('Café 東京 123')).toBe('Café 東京 123');
+    expect(transliterate('')).toBe('');
+  });
+});
+
+describe('transliterationProcessor', () => {
+  const processor = composeProcessors(transliterationProcessor(), defaultProcessor);
+
+  it('should compose with defaultProcessor', () => {
+    expect(processor('  Москва ')).toBe('moskva');
+    expect(ratio('Moskva', 'Москва')).toBe(0);
+    expect(ratio('Moskva', 'Москва', processor)).toBe(100);
+    expect(ratio('Athina', 'Αθήνα', processor)).toBe(100);
+  });
+
+  it('should be usable in extract via createScorer', () => {
+    const scorer = createScorer({ processor });
+    const cities = ['Санкт-Петербург', 'Москва', 'Αθήνα', 'القاهرة'];
+
+    expect(extractOne('Moskva', cities, scorer)).toEqual({ choice: 'Москва', score: 100 });
+    expect(extract('Athina', cities, scorer, 1)[0]?.choice).toBe('Αθήνα');
+    expect(extractOne('Sankt Peterburg', cities, scorer)?.choice).toBe('Санкт-Петербург');
+  });
+});
@@ -0,0 +1,323 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  splitUnits,
+  unitLength,
+  encodeUnits,
+  withUnicodeMode,
+  type UnicodeMode,
+} from '../src/core/unicode';
+import { levenshteinDistance, levenshteinRatio } from '../src/core/levenshtein';
+import { partialRatio, partialRatioAlignment } from '../src/core/partialRatio';
+import { tokenSortRatio } from '../src/core/tokenSortRatio';
+import { tokenSetRatio } from '../src/core/tokenSetRatio';
+import { weightedRatio } from '../src/core/weightedRatio';
+import { partialTokenSortRatio } from '../src/core/partialTokenSortRatio';
+import { removeStopwords } from '../src/core/stopwords';
+import { phoneticRatio } from '../src/core/phonetic';
+import { weightedLevenshteinRatio } from '../src/core/levenshtein';
+import { ratio } from '../src/scorers';
+import { createScorer, scorerBuilder } from '../src/builders';
+
+const THUMBS_UP_MEDIUM = '\u{1f44d}\u{1f3fd}';
+const THUMBS_UP = '\u{1f44d}';
+const FAMILY = '\u{1f468}\u200d\u{1f469}\u200d\u{1f467}';
+const FLAG_FR = '\u{1f1eb}\u{1f1f7}';
+const FLAG_DE = '\u{1f1e9}\u{1f1ea}';
+
+describe('splitUnits', () => {
+  it('should split surrogate pairs into one code point', () => {
+    expect(splitUnits('a\u{20bb7}b', 'codeUnit')).toHaveLength(4);
+    expect(splitUnits('a\u{20bb7}b', 'codePoint')).toEqual(['a', '\u{20bb7}', 'b']);
+  });
+
+  it('should keep combining marks with their base letter in grapheme mode', () => {
+    expect(splitUnits('e\u0301a', 'codePoint')).toEqual(['e', '\u0301', 'a']);
+    expect(splitUnits('e\u0301a', 'grapheme')).toEqual(['e\u0301', 'a']);
+  });
+
+  it('should keep emoji sequences together in grapheme mode', () => {
+    expect(splitUnits(`${THUMBS_UP_MEDIUM}${FAMILY}${FLAG_FR}`, 'grapheme')).toEqual([
+      THUMBS_UP_MEDIUM,
+      FAMILY,
+      FLAG_FR,
+    ]);
+  });
+});
+
+describe('unitLength', () => {
+  it('should count units of each mode', () => {
+    expect(unitLength(FAMILY, 'codeUnit')).toBe(8);
+    expect(unitLength(FAMILY, 'codePoint')).toBe(5);
+    expect(unitLength(FAMILY, 'grapheme')).toBe(1);
+  });
+});
+
+describe('grapheme fallback without Intl.Segmenter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it('should approximate grapheme clusters', async () => {
+    vi.stubGlobal('Intl', { ...Intl, Segmenter: undefined });
+    vi.resetModules();
+    const unicode = await import('../src/core/unicode');
+
+    const text = `e\u0301${THUMBS_UP_MEDIUM}${FAMILY}${FLAG_FR}${FLAG_DE}x`;
+    expect(unicode.splitUnits(text, 'grapheme')).toEqual([
+      'e\u0301',
+      THUMBS_UP_MEDIUM,
+      FAMILY,
+      FLAG_FR,
+      FLAG_DE,
+      'x',
+    ]);
+  });
+});
+
+describe('encodeUnits', () => {
+  it('should return the inputs unchanged in codeUnit mode and for BMP text', () => {
+    expect(encodeUnits('abc', '\u{1f600}', 'codeUnit')).toEqual(['abc', '\u{1f600}']);
+    expect(encodeUnits('hello', 'world', 'grapheme')).toEqual(['hello', 'world']);
+  });
+
+  it('should map every unit to one code unit', () => {
+    const [u1, u2] = encodeUnits(`a ${FAMILY}`, `${FAMILY} b ${THUMBS_UP}`, 'grapheme');
+    expect(u1).toHaveLength(3);
+    expect(u2).toHaveLength(5);
+    // Equal units share their substitute; whitespace is kept
+    expect(u1[2]).toBe(u2[0]);
+    expect(u1[1]).toBe(' ');
+    expect(u2[4]).not.toBe(u1[2]);
+  });
+
+  it('should not reuse characters already present in the strings', () => {
+    const [u1, u2] = encodeUnits('', '\u{1f600}', 'codePoint');
+    expect(u1).toBe('');
+    expect(u2).not.toBe('');
+    expect(u2).toHaveLength(1);
+  });
+});
+
+describe('withUnicodeMode', () => {
+  it('should count an emoji modifier as one edit by grapheme', () => {
+    expect(levenshteinDistance(THUMBS_UP_MEDIUM, THUMBS_UP)).toBe(2);
+    expect(withUnicodeMode(levenshteinDistance, 'codePoint')(THUMBS_UP_MEDIUM, THUMBS_UP)).toBe(1);
+    expect(withUnicodeMode(levenshteinDistance, 'grapheme')(THUMBS_UP_MEDIUM, THUMBS_UP)).toBe(1);
+  });
+
+  it('should count a supplementary-plane character as one substitution', () => {
+    // 𠮷 (U+20BB7) is outside the BMP; 吉 (U+5409) is inside
+    const s1 = '\u{20bb7}野家';
+    const s2 = '吉野家';
+    expect(levenshteinDistance(s1, s2)).toBe(2);
+    expect(withUnicodeMode(levenshteinDistance, 'codePoint')(s1, s2)).toBe(1);
+  });
+
+  it('should treat a decomposed accent as one character by grapheme', () => {
+    expect(withUnicodeMode(levenshteinDistance, 'grapheme')('cafe\u0301', 'cafe')).toBe(1);
+    expect(withUnicodeMode(levenshteinDistance, 'grapheme')('cafe\u0301', 'cafx')).toBe(1);
+    expect(levenshteinDistance('cafe\u0301', 'cafx')).toBe(2);
+  });
+
+  it('should pass extra arguments through', () => {
+    const graphemeRatio = withUnicodeMode(levenshteinRatio, 'grapheme');
+    expect(graphemeRatio(`${FLAG_FR}${FLAG_DE}`, FLAG_FR)).toBe(50);
+    expect(graphemeRatio(`${FLAG_FR}${FLAG_DE}`, FLAG_FR, 60)).toBe(0);
+  });
+
+  it('should return the function itself in codeUnit mode', () => {
+    expect(withUnicodeMode(levenshteinDistance, 'codeUnit')).toBe(levenshteinDistance);
+  });
+});
+
+describe('unicode option of the composite ratios', () => {
+  it('should not split surrogate pairs in partialRatio windows', () => {
+    // By code unit, a window can pair the low surrogate of one emoji with the
+    // high surrogate of the next
+    const needle = '\u{1f600}\u{1f601}';
+    const haystack = 'xx\u{1f602}\u{1f600}\u{1f603}yy';
+    const modes: UnicodeMode[] = ['codePoint', 'grapheme'];
+    for (const unicode of modes) {
+      const alignment = partialRatioAlignment(needle, haystack, 0, { unicode });
+      expect(alignment.score).toBe(50);
+      expect(alignment.destStart).toBe(3);
+      expect(alignment.destEnd).toBe(5);
+      expect(partialRatio(needle, haystack, 0, { unicode })).toBe(50);
+    }
+  });
+
+  it('should find emoji substrings by grapheme', () => {
+    expect(partialRatio(THUMBS_UP, `great ${THUMBS_UP_MEDIUM}`, 0, { unicode: 'grapheme' })).toBe(
+      0
+    );
+    expect(partialRatio(FAMILY, `our ${FAMILY} photo`, 0, { unicode: 'grapheme' })).toBe(100);
+  });
+
+  it('should tokenize encoded strings by whitespace', () => {
+    const s1 = `${FAMILY} beach ${FLAG_FR}`;
+    const s2 = `${FLAG_FR} ${FAMILY} beach`;
+    expect(tokenSortRatio(s1, s2, 0, { unicode: 'grapheme' })).toBe(100);
+    expect(tokenSetRatio(s1, `${s2} trip`, 0, { unicode: 'grapheme' })).toBe(100);
+  });
+
+  it('should tokenize and lowercase before encoding', () => {
+    // Decomposed É and é are different graphemes until lowercased
+    const s1 = 'CAFE\u0301 bar';
+    const s2 = 'cafe\u0301 bar';
+    expect(tokenSortRatio(s1, s2, 0, { unicode: 'grapheme' })).toBe(100);
+    expect(tokenSetRatio(s1, s2, 0, { unicode: 'grapheme' })).toBe(100);
+    expect(partialTokenSortRatio(s1, s2, 0, { unicode: 'grapheme' })).toBe(100);
+    expect(weightedRatio(s1, s2, 0, { unicode: 'grapheme' })).toBe(100);
+  });
+
+  it('should pass the original tokens to the token processor', () => {
+    const tokenProcessor = (tokens: string[]): string[] =>
+      removeStopwords(
+        tokens.map((token) => token.normalize('NFC')),
+        'fr'
+      );
+    expect(
+      tokenSortRatio('cafe\u0301 a\u0300 paris', 'café paris', 0, {
+        unicode: 'grapheme',
+        tokenProcessor,
+      })
+    ).toBe(100);
+  });
+
+  it('should not match part of an emoji sequence in weightedRatio', () => {
+    const s1 = `nice ${THUMBS_UP_MEDIUM}`;
+    const s2 = `nice ${THUMBS_UP}`;
+    // By code unit, the plain thumbs up is a prefix of the modified one
+    expect(weightedRatio(s1, s2)).toBe(100);
+    expect(weightedRatio(s1, s2, 0, { unicode: 'grapheme' })).toBeCloseTo(
+      levenshteinRatio('nice a', 'nice b'),
+      5
+    );
+  });
+
+  it('should combine with the indel mode', () => {
+    expect(
+      weightedRatio('\u{20bb7}野家', '吉野家', 0, { mode: 'indel', unicode: 'codePoint' })
+    ).toBeCloseTo((4 / 6) * 100, 5);
+  });
+});
+
+describe('unicode option of scorers', () => {
+  it('should compare by grapheme in the ratio scorer', () => {
+    expect(ratio('cafe\u0301', 'cafe', undefined, 0, { unicode: 'grapheme' })).toBe(75);
+    expect(ratio('cafe\u0301', 'cafe')).toBe(80);
+  });
+
+  it('should compare by the configured unit in createScorer', () => {
+    const scorer = createScorer({ algorithm: 'simple', unicode: 'codePoint' });
+    expect(scorer('\u{20bb7}野家', '吉野家')).toBeCloseTo((2 / 3) * 100, 5);
+    expect(createScorer({ algorithm: 'simple' })('\u{20bb7}野家', '吉野家')).toBe(50);
+  });
+
+  it('should tokenize the original text in createScorer', () => {
+    const scorer = createScorer({
+      algorithm: 'tokenSort',
+      unicode: 'grapheme',
+      processor: (s) => s,
+    });
+    expect(scorer('CAFE\u0301 bar', 'bar cafe\u0301')).toBe(100);
+  });
+
+  describe('algorithms reading the characters', () => {
+    const identity = (s: string): string => s;
+    const modes: UnicodeMode[] = ['codePoint', 'grapheme'];
+
+    it('should encode the original text in the phonetic algorithm', () => {
+      for (const unicode of modes) {
+        const scorer = createScorer({ algorithm: 'phonetic', unicode, processor: identity });
+        expect(scorer('Jose\u0301', 'Jose')).toBe(100);
+        expect(scorer(`Smith ${THUMBS_UP}`, 'Smith')).toBe(
+          createScorer({ algorithm: 'phonetic', processor: identity })(
+            `Smith ${THUMBS_UP}`,
+            'Smith'
+          )
+        );
+      }
+    });
+
+    it('should blend the phonetic ratio of the original text', () => {
+      for (const unicode of modes) {
+        for (const [s1, s2] of [
+          ['Jose\u0301', 'Jose'],
+          [`Smith ${THUMBS_UP}`, 'Smyth'],
+        ] as const) {
+          const base = createScorer({ algorithm: 'simple', unicode, processor: identity });
+          const blended = createScorer({
+            algorithm: 'simple',
+            unicode,
+            phoneticWeight: 0.5,
+            processor: identity,
+          });
+          expect(blended(s1, s2)).toBeCloseTo(0.5 * base(s1, s2) + 0.5 * phoneticRatio(s1, s2), 10);
+        }
+      }
+    });
+
+    it('should pass whole units to substitution cost callbacks', () => {
+      for (const unicode of modes) {
+        const seen: string[] = [];
+        const scorer = createScorer({
+          unicode,
+          processor: identity,
+          editCosts: {
+            substitutionCost: (from, to): number => {
+              seen.push(from, to);
+              return 0.5;
+            },
+          },
+        });
+        expect(scorer(`${THUMBS_UP} cafe\u0301`, `${THUMBS_UP_MEDIUM} cafe`)).toBe(
+          weightedLevenshteinRatio(
+            `${THUMBS_UP} cafe\u0301`,
+            `${THUMBS_UP_MEDIUM} cafe`,
+            { substitutionCost: () => 0.5 },
+            0,
+            unicode
+          )
+        );
+        expect(seen.every((char) => !/[\ue000-\uf8ff]/u.test(char))).toBe(true);
+      }
+      const graphemes: string[] = [];
+      createScorer({
+        unicode: 'grapheme',
+        processor: identity,
+        editCosts: {
+          substitutionCost: (from, to): number => {
+            graphemes.push(from, to);
+            return 1;
+          },
+        },
+      })('cafe\u0301', 'cafe');
+      expect(graphemes).toContain('e\u0301');
+    });
+
+    it('should match multi-character substitutions by unit', () => {
+      const multiCharSubstitutions = [{ from: '\u{1f600}', to: ':)', cost: 0.1 }];
+      const codeUnitScore = createScorer({
+        processor: identity,
+        editCosts: { multiCharSubstitutions },
+      })('hi \u{1f600}', 'hi :)');
+      expect(codeUnitScore).toBeCloseTo(98, 10);
+      for (const unicode of modes) {
+        const scorer = createScorer({
+          unicode,
+          processor: identity,
+          editCosts: { multiCharSubstitutions },
+        });
+        expect(scorer('hi \u{1f600}', 'hi :)')).toBeCloseTo(98, 10);
+      }
+    });
+  });
+
+  it('should set the unicode mode through the builder', () => {
+    const scorer = scorerBuilder().withAlgorithm('simple').withUnicodeMode('grapheme').build();
+    expect(scorer(THUMBS_UP_MEDIUM, THUMBS_UP)).toBe(0);
+    expect(scorer(`ok ${FAMILY}`, `ok ${FLAG_FR}`)).toBe(75);
+  });
+});